@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { AlertCircle, RotateCcw } from "lucide-react";
 import { useBitcoinPrice } from "~/hooks/useBitcoinPrice";
 import type { BitcoinData } from "~/services/bitcoin.service";
@@ -7,6 +8,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/com
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Skeleton } from "~/components/ui/skeleton";
+import { ErrorDetails } from "~/components/error-details";
+import { UpstreamStatus } from "~/components/upstream-status";
+import { RefreshCountdown } from "~/components/refresh-countdown";
+import { bitcoinKeys } from "~/lib/query-keys";
+import { apiConfig } from "~/lib/config";
 
 // Format price - simple function, React 19 compiler handles optimization
 function formatPrice(price: number): string {
@@ -16,14 +22,38 @@ function formatPrice(price: number): string {
     }).format(price);
 }
 
-// Format date - simple function
+// Format date - pinned to Bangkok time so the server render matches the browser's
 function formatDate(timestamp: number): string {
     return new Intl.DateTimeFormat("th-TH", {
         dateStyle: "medium",
         timeStyle: "medium",
+        timeZone: "Asia/Bangkok",
     }).format(new Date(timestamp));
 }
 
+// Prices older than this are flagged as stale
+const STALE_AFTER_MS = 60 * 1000;
+
+// Live/Stale badge - decided after mount (the clock differs between server and browser)
+// and flipped to stale once the price ages past STALE_AFTER_MS
+function FreshnessBadge({ time }: { time: number }) {
+    const [isStale, setIsStale] = useState(false);
+
+    useEffect(() => {
+        const staleInMs = time + STALE_AFTER_MS - Date.now();
+        setIsStale(staleInMs <= 0);
+        if (staleInMs <= 0) return;
+        const timer = setTimeout(() => setIsStale(true), staleInMs);
+        return () => clearTimeout(timer);
+    }, [time]);
+
+    return (
+        <Badge variant={isStale ? "secondary" : "default"}>
+            {isStale ? "⏳ Stale" : "🟢 Live"}
+        </Badge>
+    );
+}
+
 // Price Card Component - React 19 doesn't need memo()
 function PriceCard({
     currency,
@@ -86,10 +116,10 @@ function LoadingSkeleton() {
 
 // Error Component
 function ErrorDisplay({
-    message,
+    error,
     onRetry,
 }: {
-    message: string;
+    error: Error;
     onRetry: () => void;
 }) {
     return (
@@ -100,7 +130,7 @@ function ErrorDisplay({
                         <AlertCircle className="h-5 w-5 text-destructive mt-0.5 flex-shrink-0" />
                         <div>
                             <CardTitle className="text-destructive">Failed to load Bitcoin prices</CardTitle>
-                            <CardDescription>{message}</CardDescription>
+                            <ErrorDetails error={error} />
                         </div>
                     </div>
                 </CardHeader>
@@ -125,7 +155,7 @@ export function BitcoinFeed() {
 
     // Error state
     if (error) {
-        return <ErrorDisplay message={error.message} onRetry={() => refetch()} />;
+        return <ErrorDisplay error={error} onRetry={() => refetch()} />;
     }
 
     // No data state
@@ -135,7 +165,6 @@ export function BitcoinFeed() {
 
     // Derived values - React 19 compiler optimizes these automatically
     const lastUpdated = formatDate(data.time);
-    const isStale = Date.now() - data.time > 60000;
 
     return (
         <Card className="max-w-2xl mx-auto">
@@ -148,9 +177,9 @@ export function BitcoinFeed() {
                     <CardDescription>{lastUpdated}</CardDescription>
                 </div>
                 <div className="flex items-center gap-2">
-                    <Badge variant={isStale ? "secondary" : "default"}>
-                        {isStale ? "⏳ Stale" : "🟢 Live"}
-                    </Badge>
+                    <UpstreamStatus url={apiConfig.bitcoinApiUrl} />
+                    <RefreshCountdown queryKey={bitcoinKeys.price()} />
+                    <FreshnessBadge time={data.time} />
                     <Button
                         onClick={() => refetch()}
                         variant="outline"
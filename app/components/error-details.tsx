@@ -0,0 +1,51 @@
+/**
+ * ErrorDetails Component
+ *
+ * Shared error body for the feed ErrorDisplay cards:
+ * - Shows the server's problem+json `detail` when an ApiError carries one
+ * - Lists per-field validation messages below it
+ * - Explains an open circuit as "upstream unavailable"
+ * - Falls back to the error message for everything else (including non-FetchErrors)
+ */
+import { matchErrorPartial } from "better-result";
+import { isFetchError } from "~/lib/errors";
+import { CardDescription } from "~/components/ui/card";
+
+export function ErrorDetails({ error }: { error: Error }) {
+    if (!isFetchError(error)) {
+        return <CardDescription>{error.message}</CardDescription>;
+    }
+
+    return matchErrorPartial(
+        error,
+        {
+            CircuitOpenError: (e) => (
+                <CardDescription>
+                    Upstream {e.host} is unavailable.
+                    {e.retryAt && ` Next attempt after ${new Date(e.retryAt).toLocaleTimeString()}.`}
+                </CardDescription>
+            ),
+            ApiError: (e) => {
+                const fieldErrors = Object.entries(e.problem?.fieldErrors ?? {});
+                return (
+                    <>
+                        <CardDescription>{e.problem?.detail ?? e.message}</CardDescription>
+                        {fieldErrors.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-sm text-destructive">
+                                {fieldErrors.map(([field, messages]) => (
+                                    <li key={field}>
+                                        <span className="font-medium">{field}</span>:{" "}
+                                        {messages.join(", ")}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </>
+                );
+            },
+        },
+        (e) => <CardDescription>{e.message}</CardDescription>
+    );
+}
+
+export default ErrorDetails;
@@ -7,6 +7,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/com
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Skeleton } from "~/components/ui/skeleton";
+import { ErrorDetails } from "~/components/error-details";
+import { RefreshCountdown } from "~/components/refresh-countdown";
+import { etfKeys } from "~/lib/query-keys";
 
 
 // Format currency
@@ -102,10 +105,10 @@ function LoadingSkeleton() {
 
 // Error Component
 function ErrorDisplay({
-    message,
+    error,
     onRetry,
 }: {
-    message: string;
+    error: Error;
     onRetry: () => void;
 }) {
     return (
@@ -116,7 +119,7 @@ function ErrorDisplay({
                         <AlertCircle className="h-5 w-5 text-destructive mt-0.5 flex-shrink-0" />
                         <div>
                             <CardTitle className="text-destructive">Failed to load ETF data</CardTitle>
-                            <CardDescription>{message}</CardDescription>
+                            <ErrorDetails error={error} />
                         </div>
                     </div>
                 </CardHeader>
@@ -141,7 +144,7 @@ export function ETFFeed() {
 
     // Early return for error - no try...catch needed
     if (error) {
-        return <ErrorDisplay message={error.message} onRetry={() => refetch()} />;
+        return <ErrorDisplay error={error} onRetry={() => refetch()} />;
     }
 
     // Early return for no data
@@ -164,6 +167,7 @@ export function ETFFeed() {
                     <p className="text-sm text-muted-foreground">Best yield dividend ETFs for passive income</p>
                 </div>
                 <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <RefreshCountdown queryKey={etfKeys.dividends()} />
                     <Card className="w-fit">
                         <CardContent className="px-4 py-2">
                             <div className="text-center">
@@ -7,6 +7,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/com
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Skeleton } from "~/components/ui/skeleton";
+import { ErrorDetails } from "~/components/error-details";
+import { UpstreamStatus } from "~/components/upstream-status";
+import { RefreshCountdown } from "~/components/refresh-countdown";
+import { goldKeys } from "~/lib/query-keys";
+import { apiConfig } from "~/lib/config";
 
 // Format price - React 19 compiler handles optimization
 function formatPrice(price: number): string {
@@ -95,10 +100,10 @@ function LoadingSkeleton() {
 
 // Error Component
 function ErrorDisplay({
-    message,
+    error,
     onRetry,
 }: {
-    message: string;
+    error: Error;
     onRetry: () => void;
 }) {
     return (
@@ -109,7 +114,7 @@ function ErrorDisplay({
                         <AlertCircle className="h-5 w-5 text-destructive mt-0.5 flex-shrink-0" />
                         <div>
                             <CardTitle className="text-destructive">ไม่สามารถโหลดราคาทองได้</CardTitle>
-                            <CardDescription>{message}</CardDescription>
+                            <ErrorDetails error={error} />
                         </div>
                     </div>
                 </CardHeader>
@@ -134,7 +139,7 @@ export function GoldFeed() {
 
     // Error state
     if (error) {
-        return <ErrorDisplay message={error.message} onRetry={() => refetch()} />;
+        return <ErrorDisplay error={error} onRetry={() => refetch()} />;
     }
 
     // No data state
@@ -158,6 +163,8 @@ export function GoldFeed() {
                     <p className="text-sm text-muted-foreground">{data.date}</p>
                 </div>
                 <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <UpstreamStatus url={apiConfig.goldApiUrl} />
+                    <RefreshCountdown queryKey={goldKeys.price()} />
                     <Badge variant={isUp ? "default" : "destructive"} className="w-fit">
                         <span className="flex items-center gap-1">
                             {changeIcon}
@@ -0,0 +1,72 @@
+/**
+ * RefreshCountdown Component
+ *
+ * Badge next to a feed's title showing when its data refreshes next,
+ * or why polling is paused (market closed, offline, another tab polling...)
+ */
+import { useEffect, useState } from "react";
+import type { QueryKey } from "@tanstack/react-query";
+import { usePollingStatus } from "~/hooks/usePollingStatus";
+import type { PollingStatus } from "~/lib/polling";
+import { Badge } from "~/components/ui/badge";
+
+function formatCountdown(ms: number): string {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, "0");
+    return hours > 0
+        ? `${hours}h ${String(minutes).padStart(2, "0")}m`
+        : `${minutes}:${seconds}`;
+}
+
+function describe(status: PollingStatus, now: number): string {
+    const remaining = status.nextRefreshAt === null ? "" : formatCountdown(status.nextRefreshAt - now);
+
+    switch (status.state) {
+        case "scheduled":
+            return `🔄 Next update in ${remaining}`;
+        case "backoff":
+            return `⏳ Retrying in ${remaining}`;
+        case "market-closed":
+            return `🌙 Market closed · opens in ${remaining}`;
+        case "fetching":
+            return "🔄 Updating…";
+        case "hidden":
+            return "⏸️ Paused";
+        case "offline":
+            return "📴 Offline · paused";
+        case "follower":
+            return "🔗 Updated by another tab";
+    }
+}
+
+export function RefreshCountdown({ queryKey }: { queryKey: QueryKey }) {
+    const status = usePollingStatus(queryKey);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tick once a second while there is something to count down to
+    const isCounting = status?.nextRefreshAt != null;
+    useEffect(() => {
+        if (!isCounting) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isCounting]);
+
+    if (!status) {
+        return null;
+    }
+
+    return (
+        <Badge
+            variant="outline"
+            className="tabular-nums"
+            title={status.nextRefreshAt ? new Date(status.nextRefreshAt).toLocaleString() : undefined}
+        >
+            {describe(status, now)}
+        </Badge>
+    );
+}
+
+export default RefreshCountdown;
@@ -0,0 +1,172 @@
+/**
+ * RequestTracePanel Component
+ *
+ * Dev-only floating panel listing recent api calls from the trace buffer:
+ * - Per-host summary (calls, failures, average and slowest duration)
+ *   to spot which feed is slow
+ * - Most recent attempts first, with status or error tag and correlation ID
+ */
+import { useState } from "react";
+import { Activity, X } from "lucide-react";
+import { useRequestTraces } from "~/hooks/useRequestTraces";
+import { hostOf } from "~/lib/circuit-breaker";
+import { traceBuffer, type TraceRecord } from "~/lib/tracing";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+
+// Calls slower than this are highlighted
+const SLOW_MS = 1000;
+
+interface HostSummary {
+    host: string;
+    calls: number;
+    failures: number;
+    averageMs: number;
+    slowestMs: number;
+}
+
+function summarize(records: readonly TraceRecord[]): HostSummary[] {
+    const byHost = new Map<string, TraceRecord[]>();
+    for (const record of records) {
+        if (record.durationMs === null) continue;
+        const host = hostOf(record.url) ?? record.url;
+        byHost.set(host, [...(byHost.get(host) ?? []), record]);
+    }
+
+    return [...byHost].map(([host, calls]) => {
+        const durations = calls.map((call) => call.durationMs ?? 0);
+        return {
+            host,
+            calls: calls.length,
+            failures: calls.filter((call) => call.errorTag !== null).length,
+            averageMs: Math.round(durations.reduce((sum, ms) => sum + ms, 0) / calls.length),
+            slowestMs: Math.max(...durations),
+        };
+    });
+}
+
+function Outcome({ record }: { record: TraceRecord }) {
+    if (record.durationMs === null) {
+        return <Badge variant="outline">pending</Badge>;
+    }
+    if (record.errorTag) {
+        return (
+            <Badge variant="destructive">
+                {record.status ? `${record.status} ` : ""}
+                {record.errorTag}
+            </Badge>
+        );
+    }
+    return <Badge variant="secondary">{record.status}</Badge>;
+}
+
+function TraceRow({ record }: { record: TraceRecord }) {
+    const { pathname, search } = new URL(record.url, "http://localhost");
+    const slow = record.durationMs !== null && record.durationMs >= SLOW_MS;
+
+    return (
+        <tr className="border-t align-top">
+            <td className="py-1 pr-2 font-mono">{record.method}</td>
+            <td className="py-1 pr-2 break-all" title={record.correlationId ?? undefined}>
+                <div>{hostOf(record.url) ?? ""}</div>
+                <div className="text-muted-foreground">
+                    {pathname}
+                    {search}
+                </div>
+            </td>
+            <td className="py-1 pr-2">
+                <Outcome record={record} />
+                {record.attempt > 1 && (
+                    <div className="text-muted-foreground">attempt {record.attempt}</div>
+                )}
+            </td>
+            <td className={`py-1 text-right tabular-nums ${slow ? "text-destructive font-bold" : ""}`}>
+                {record.durationMs === null ? "…" : `${record.durationMs} ms`}
+            </td>
+        </tr>
+    );
+}
+
+export function RequestTracePanel() {
+    const [open, setOpen] = useState(false);
+    const records = useRequestTraces();
+
+    if (!open) {
+        return (
+            <Button
+                variant="outline"
+                size="sm"
+                className="fixed bottom-4 right-4 z-50 shadow-lg"
+                onClick={() => setOpen(true)}
+            >
+                <Activity />
+                Requests ({records.length})
+            </Button>
+        );
+    }
+
+    const summaries = summarize(records);
+
+    return (
+        <Card className="fixed bottom-4 right-4 z-50 w-[32rem] max-w-[calc(100vw-2rem)] max-h-[70vh] overflow-hidden shadow-2xl gap-2 py-4">
+            <CardHeader className="flex items-center justify-between px-4">
+                <CardTitle className="text-sm">Recent requests</CardTitle>
+                <div className="flex gap-1">
+                    <Button variant="ghost" size="xs" onClick={() => traceBuffer.clear()}>
+                        Clear
+                    </Button>
+                    <Button variant="ghost" size="icon-xs" onClick={() => setOpen(false)}>
+                        <X />
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="overflow-y-auto px-4 text-xs">
+                {summaries.length > 0 && (
+                    <table className="w-full mb-3">
+                        <thead className="text-muted-foreground text-left">
+                            <tr>
+                                <th className="font-normal">Host</th>
+                                <th className="font-normal text-right">Calls</th>
+                                <th className="font-normal text-right">Failed</th>
+                                <th className="font-normal text-right">Avg</th>
+                                <th className="font-normal text-right">Max</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {summaries.map((summary) => (
+                                <tr key={summary.host} className="border-t tabular-nums">
+                                    <td className="py-1 break-all">{summary.host}</td>
+                                    <td className="py-1 text-right">{summary.calls}</td>
+                                    <td className="py-1 text-right">{summary.failures}</td>
+                                    <td className="py-1 text-right">{summary.averageMs} ms</td>
+                                    <td
+                                        className={`py-1 text-right ${summary.slowestMs >= SLOW_MS ? "text-destructive font-bold" : ""}`}
+                                    >
+                                        {summary.slowestMs} ms
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {records.length === 0 ? (
+                    <p className="text-muted-foreground">No requests yet.</p>
+                ) : (
+                    <table className="w-full">
+                        <tbody>
+                            {[...records].reverse().map((record) => (
+                                <TraceRow
+                                    key={`${record.requestId}#${record.attempt}`}
+                                    record={record}
+                                />
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+export default RequestTracePanel;
@@ -0,0 +1,31 @@
+/**
+ * UpstreamStatus Component
+ *
+ * Badge shown next to a feed's title while its upstream's circuit breaker
+ * is open or probing, so stale data is clearly marked as such
+ * Renders nothing on the server, so the local retry time is only formatted in the browser
+ */
+import { useCircuitBreaker } from "~/hooks/useCircuitBreaker";
+import { Badge } from "~/components/ui/badge";
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString();
+}
+
+export function UpstreamStatus({ url }: { url: string }) {
+    const circuit = useCircuitBreaker(url);
+
+    if (circuit.state === "closed") {
+        return null;
+    }
+
+    return (
+        <Badge variant="destructive" title={`${circuit.consecutiveFailures} consecutive failures`}>
+            {circuit.state === "open" && circuit.retryAt
+                ? `⚠️ Upstream unavailable · retry ${formatTime(circuit.retryAt)}`
+                : "⚠️ Upstream recovering"}
+        </Badge>
+    );
+}
+
+export default UpstreamStatus;
@@ -9,16 +9,40 @@
  * - TanStack Router patterns (component can be used in routes)
  * - Modern React 19 patterns (no manual memoization needed)
  * - shadcn/ui components for styling
+ * - Optimistic edit and delete actions (useUpdateUser / useDeleteUser)
+ * - Search, filters, sort and pagination kept in the URL (useUserFilters)
  */
 "use client";
 
-import { AlertCircle, Users as UsersIcon, RotateCcw } from "lucide-react";
-import { useUsers } from "~/hooks/useUsers";
-import type { User } from "~/types/users.type";
+import { useState, type FormEvent } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+    AlertCircle,
+    Users as UsersIcon,
+    RotateCcw,
+    Pencil,
+    Trash2,
+    Search,
+    ArrowDownAZ,
+    ArrowUpZA,
+    ChevronLeft,
+    ChevronRight,
+} from "lucide-react";
+import { useUserFilters } from "~/hooks/useUserFilters";
+import { useDeleteUser, useFilteredUsers, useUpdateUser, useUsers } from "~/hooks/useUsers";
+import { userKeys } from "~/lib/query-keys";
+import { USER_SORT_FIELDS, userFilterOptions } from "~/services/user-filters";
+import type { User, UserFilters, UserSortField } from "~/types/users.type";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
 import { Skeleton } from "~/components/ui/skeleton";
+import { ErrorDetails } from "~/components/error-details";
+import { isFetchError, QueuedError } from "~/lib/errors";
+import { describeFetchError } from "~/lib/query-result";
+import { UpstreamStatus } from "~/components/upstream-status";
+import { apiConfig } from "~/lib/config";
 
 /**
  * Get initials from name
@@ -69,10 +93,10 @@ function LoadingSkeleton() {
  * Error Display Component
  */
 function ErrorDisplay({
-    message,
+    error,
     onRetry,
 }: {
-    message: string;
+    error: Error;
     onRetry: () => void;
 }) {
     return (
@@ -83,7 +107,7 @@ function ErrorDisplay({
                         <AlertCircle className="h-5 w-5 text-destructive mt-0.5 flex-shrink-0" />
                         <div>
                             <CardTitle className="text-destructive">Failed to load users</CardTitle>
-                            <CardDescription>{message}</CardDescription>
+                            <ErrorDetails error={error} />
                         </div>
                     </div>
                 </CardHeader>
@@ -114,11 +138,230 @@ function EmptyState() {
     );
 }
 
+/**
+ * No users match the current search and filters
+ */
+function NoMatches({ onReset }: { onReset: () => void }) {
+    return (
+        <div className="flex items-center justify-center min-h-[300px]">
+            <Card className="w-full max-w-md text-center">
+                <CardHeader>
+                    <div className="text-4xl mb-2">🔍</div>
+                    <CardTitle>No matching users</CardTitle>
+                    <CardDescription>Try another search or clear the filters.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Button variant="outline" onClick={onReset}>
+                        Clear filters
+                    </Button>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+const SORT_LABELS: Record<UserSortField, string> = {
+    name: "Name",
+    username: "Username",
+    email: "Email",
+    company: "Company",
+    city: "City",
+};
+
+// Native select styled like the shadcn Input
+const selectClassName =
+    "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+/**
+ * Search box, city / company filters and sort controls
+ */
+function UserToolbar({
+    filters,
+    users,
+    onChange,
+}: {
+    filters: UserFilters;
+    users: User[];
+    onChange: (changes: Partial<Omit<UserFilters, "page">>) => void;
+}) {
+    const { cities, companies } = userFilterOptions(users);
+
+    return (
+        <div className="flex flex-col lg:flex-row gap-3">
+            <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                    type="search"
+                    value={filters.q}
+                    onChange={(event) => onChange({ q: event.target.value })}
+                    placeholder="Search name, username, email or company"
+                    aria-label="Search users"
+                    className="pl-9"
+                />
+            </div>
+            <div className="flex flex-wrap gap-2">
+                <select
+                    value={filters.city}
+                    onChange={(event) => onChange({ city: event.target.value })}
+                    aria-label="Filter by city"
+                    className={selectClassName}
+                >
+                    <option value="">All cities</option>
+                    {cities.map((city) => (
+                        <option key={city} value={city}>
+                            {city}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={filters.company}
+                    onChange={(event) => onChange({ company: event.target.value })}
+                    aria-label="Filter by company"
+                    className={selectClassName}
+                >
+                    <option value="">All companies</option>
+                    {companies.map((company) => (
+                        <option key={company} value={company}>
+                            {company}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={filters.sort}
+                    onChange={(event) => onChange({ sort: event.target.value as UserSortField })}
+                    aria-label="Sort by"
+                    className={selectClassName}
+                >
+                    {USER_SORT_FIELDS.map((field) => (
+                        <option key={field} value={field}>
+                            Sort by {SORT_LABELS[field].toLowerCase()}
+                        </option>
+                    ))}
+                </select>
+                <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label={filters.order === "asc" ? "Sort descending" : "Sort ascending"}
+                    onClick={() => onChange({ order: filters.order === "asc" ? "desc" : "asc" })}
+                >
+                    {filters.order === "asc" ? <ArrowDownAZ /> : <ArrowUpZA />}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Previous / next page controls
+ */
+function Pagination({
+    page,
+    pageCount,
+    onPageChange,
+}: {
+    page: number;
+    pageCount: number;
+    onPageChange: (page: number) => void;
+}) {
+    return (
+        <nav className="flex items-center justify-center gap-3" aria-label="User pages">
+            <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => onPageChange(page - 1)}
+            >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+            </Button>
+            <span className="text-sm text-muted-foreground tabular-nums">
+                Page {page} of {pageCount}
+            </span>
+            <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= pageCount}
+                onClick={() => onPageChange(page + 1)}
+            >
+                Next
+                <ChevronRight className="h-4 w-4" />
+            </Button>
+        </nav>
+    );
+}
+
+/**
+ * Mutation outcome shown under a card or the list header
+ * Queued mutations are not failures: the outbox replays them once back online
+ */
+function MutationNotice({ error, action }: { error: Error | null; action: string }) {
+    if (!error) return null;
+
+    if (QueuedError.is(error)) {
+        return (
+            <p className="text-xs text-muted-foreground">
+                Offline - the {action} will be sent when the connection is back.
+            </p>
+        );
+    }
+    return (
+        <p className="text-xs text-destructive">
+            Could not {action} ({isFetchError(error) ? describeFetchError(error) : error.message}). Changes were reverted.
+        </p>
+    );
+}
+
+/**
+ * Inline edit form for a user's contact details
+ */
+function UserEditForm({
+    user,
+    onSave,
+    onCancel,
+}: {
+    user: User;
+    onSave: (user: User) => void;
+    onCancel: () => void;
+}) {
+    const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const form = new FormData(event.currentTarget);
+        onSave({
+            ...user,
+            name: String(form.get("name")),
+            email: String(form.get("email")),
+            phone: String(form.get("phone")),
+            website: String(form.get("website")),
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2">
+            <Input name="name" defaultValue={user.name} aria-label="Name" required />
+            <Input name="email" type="email" defaultValue={user.email} aria-label="Email" required />
+            <Input name="phone" defaultValue={user.phone} aria-label="Phone" />
+            <Input name="website" defaultValue={user.website} aria-label="Website" />
+            <div className="flex justify-end gap-2 pt-1">
+                <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+                    Cancel
+                </Button>
+                <Button type="submit" size="sm">
+                    Save
+                </Button>
+            </div>
+        </form>
+    );
+}
+
 /**
  * User Card Component
  * React 19 handles optimization automatically
  */
-function UserCard({ user }: { user: User }) {
+function UserCard({ user, onDelete }: { user: User; onDelete: (id: number) => void }) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+    const update = useUpdateUser();
+
     return (
         <Card className="hover:shadow-lg transition-shadow">
             <CardHeader>
@@ -130,43 +373,87 @@ function UserCard({ user }: { user: User }) {
                         <CardTitle className="text-base truncate">{user.name}</CardTitle>
                         <CardDescription className="text-xs">@{user.username}</CardDescription>
                     </div>
-                </div>
-            </CardHeader>
-            <CardContent className="space-y-3">
-                <div className="flex items-start gap-3">
-                    <span className="text-lg flex-shrink-0">📧</span>
-                    <span className="text-sm truncate">
-                        <a href={`mailto:${user.email}`} className="text-primary hover:underline">
-                            {user.email.toLowerCase()}
-                        </a>
-                    </span>
-                </div>
-                <div className="flex items-start gap-3">
-                    <span className="text-lg flex-shrink-0">📞</span>
-                    <span className="text-sm">{user.phone}</span>
-                </div>
-                <div className="flex items-start gap-3">
-                    <span className="text-lg flex-shrink-0">🌐</span>
-                    <span className="text-sm truncate">
-                        <a
-                            href={`https://${user.website}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-primary hover:underline"
+                    {!isEditing && (
+                        <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            aria-label={`Edit ${user.name}`}
+                            onClick={() => setIsEditing(true)}
                         >
-                            {user.website}
-                        </a>
-                    </span>
+                            <Pencil />
+                        </Button>
+                    )}
                 </div>
-                <div className="flex items-start gap-3">
-                    <span className="text-lg flex-shrink-0">📍</span>
-                    <span className="text-sm">{user.address.city}, {user.address.street}</span>
-                </div>
-            </CardContent>
-            <div className="px-6 py-4 border-t">
+            </CardHeader>
+            {isEditing ? (
+                <CardContent>
+                    <UserEditForm
+                        user={user}
+                        onSave={(edited) => {
+                            // The cache updates optimistically, so close right away
+                            update.mutate(edited);
+                            setIsEditing(false);
+                        }}
+                        onCancel={() => setIsEditing(false)}
+                    />
+                </CardContent>
+            ) : (
+                <CardContent className="space-y-3">
+                    <div className="flex items-start gap-3">
+                        <span className="text-lg flex-shrink-0">📧</span>
+                        <span className="text-sm truncate">
+                            <a href={`mailto:${user.email}`} className="text-primary hover:underline">
+                                {user.email.toLowerCase()}
+                            </a>
+                        </span>
+                    </div>
+                    <div className="flex items-start gap-3">
+                        <span className="text-lg flex-shrink-0">📞</span>
+                        <span className="text-sm">{user.phone}</span>
+                    </div>
+                    <div className="flex items-start gap-3">
+                        <span className="text-lg flex-shrink-0">🌐</span>
+                        <span className="text-sm truncate">
+                            <a
+                                href={`https://${user.website}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-primary hover:underline"
+                            >
+                                {user.website}
+                            </a>
+                        </span>
+                    </div>
+                    <div className="flex items-start gap-3">
+                        <span className="text-lg flex-shrink-0">📍</span>
+                        <span className="text-sm">{user.address.city}, {user.address.street}</span>
+                    </div>
+                    <MutationNotice error={update.error} action="update" />
+                </CardContent>
+            )}
+            <div className="px-6 py-4 border-t flex items-center justify-between gap-2">
                 <Badge variant="secondary">
                     🏢 {user.company.name}
                 </Badge>
+                {isConfirmingDelete ? (
+                    <div className="flex gap-1">
+                        <Button variant="ghost" size="xs" onClick={() => setIsConfirmingDelete(false)}>
+                            Keep
+                        </Button>
+                        <Button variant="destructive" size="xs" onClick={() => onDelete(user.id)}>
+                            Delete
+                        </Button>
+                    </div>
+                ) : (
+                    <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label={`Delete ${user.name}`}
+                        onClick={() => setIsConfirmingDelete(true)}
+                    >
+                        <Trash2 />
+                    </Button>
+                )}
             </div>
         </Card>
     );
@@ -176,10 +463,15 @@ function UserCard({ user }: { user: User }) {
  * Main UserList Component
  */
 export function UserList() {
+    const queryClient = useQueryClient();
     const { data: users, isLoading, isError, error, refetch, isFetching } = useUsers();
+    const { filters, setFilters, setPage, resetFilters, isFiltered } = useUserFilters();
+    const view = useFilteredUsers(filters);
+    // Owned here rather than by the card: a deleted card unmounts, but a failure must still show
+    const remove = useDeleteUser();
 
     // Loading state
-    if (isLoading) {
+    if (isLoading || (!view.data && view.isLoading)) {
         return <LoadingSkeleton />;
     }
 
@@ -187,14 +479,14 @@ export function UserList() {
     if (isError) {
         return (
             <ErrorDisplay
-                message={error?.message || "An unexpected error occurred"}
+                error={error}
                 onRetry={() => refetch()}
             />
         );
     }
 
     // Empty state
-    if (!users || users.length === 0) {
+    if (!users || users.length === 0 || !view.data) {
         return <EmptyState />;
     }
 
@@ -206,11 +498,14 @@ export function UserList() {
                     <h2 className="text-3xl font-bold">User Directory</h2>
                 </div>
                 <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <UpstreamStatus url={apiConfig.userApiUrl} />
                     <Badge variant="outline" className="w-fit">
+                        {isFiltered && `${view.data.total} of `}
                         {users.length} {users.length === 1 ? 'user' : 'users'}
                     </Badge>
                     <Button
-                        onClick={() => refetch()}
+                        // Refetches the list and, through it, the current view
+                        onClick={() => queryClient.invalidateQueries({ queryKey: userKeys.lists() })}
                         disabled={isFetching}
                         variant="default"
                         size="sm"
@@ -221,11 +516,27 @@ export function UserList() {
                 </div>
             </div>
 
-            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {users.map((user) => (
-                    <UserCard key={user.id} user={user} />
-                ))}
-            </div>
+            <UserToolbar filters={filters} users={users} onChange={setFilters} />
+
+            <MutationNotice error={remove.error} action="delete" />
+
+            {view.data.total === 0 ? (
+                <NoMatches onReset={resetFilters} />
+            ) : (
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                    {view.data.items.map((user) => (
+                        <UserCard key={user.id} user={user} onDelete={(id) => remove.mutate(id)} />
+                    ))}
+                </div>
+            )}
+
+            {view.data.pageCount > 1 && (
+                <Pagination
+                    page={view.data.page}
+                    pageCount={view.data.pageCount}
+                    onPageChange={setPage}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+/**
+ * Typed Vite env variables used by app/lib/config.ts
+ */
+interface ImportMetaEnv {
+    readonly VITE_USER_API_URL?: string;
+    readonly VITE_BITCOIN_API_URL?: string;
+    readonly VITE_GOLD_API_URL?: string;
+    readonly VITE_API_FIXTURES?: "record" | "replay";
+    readonly VITE_BUILD_ID?: string;
+}
@@ -9,24 +9,14 @@
  * - Service layer: Uses fetchBitcoinPrice() from bitcoin.service.ts
  */
 import { useQuery } from "@tanstack/react-query";
-import { fetchBitcoinPrice } from "~/services/bitcoin.service";
+import { bitcoinQueries } from "~/queries/bitcoin.queries";
 import type { BitcoinData } from "~/services/bitcoin.service";
 
 /**
  * Hook to fetch Bitcoin price
  */
 export function useBitcoinPrice() {
-    return useQuery({
-        queryKey: ["bitcoin-price"],
-        queryFn: async () => {
-            const result = await fetchBitcoinPrice();
-            if (result.isErr()) throw new Error(result.error.message);
-            return result.value;
-        },
-        staleTime: 5 * 60 * 1000, // 5 minutes
-        refetchInterval: 30 * 1000, // Refetch every 30 seconds
-        retry: 3,
-    });
+    return useQuery(bitcoinQueries.price());
 }
 
 export type { BitcoinData };
@@ -0,0 +1,31 @@
+/**
+ * Custom hook for observing an upstream's circuit breaker
+ *
+ * Lets feed components tell "upstream unavailable" apart from other errors
+ * - Subscribes with useSyncExternalStore, so it re-renders only on state changes
+ * - Accepts any URL on the host (e.g. the service's configured base URL)
+ */
+import { useSyncExternalStore } from "react";
+import {
+    CircuitBreaker,
+    circuitBreaker,
+    hostOf,
+    type CircuitSnapshot,
+} from "~/lib/circuit-breaker";
+
+// Never records anything, so the server (and hydration) always sees a closed circuit -
+// the server process's breaker says nothing about the browser's
+const idleBreaker = new CircuitBreaker();
+
+/**
+ * Hook to read the circuit state for the host of the given URL
+ */
+export function useCircuitBreaker(url: string): CircuitSnapshot {
+    const host = hostOf(url) ?? url;
+
+    return useSyncExternalStore(
+        (listener) => circuitBreaker.subscribe(listener),
+        () => circuitBreaker.getSnapshot(host),
+        () => idleBreaker.getSnapshot(host)
+    );
+}
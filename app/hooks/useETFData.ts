@@ -9,24 +9,14 @@
  * - Service layer: Uses fetchETFData() from etf.service.ts
  */
 import { useQuery } from "@tanstack/react-query";
-import { fetchETFData } from "~/services/etf.service";
+import { etfQueries } from "~/queries/etf.queries";
 import type { ETFData } from "~/services/etf.service";
 
 /**
  * Hook to fetch ETF dividend data
  */
 export function useETFData() {
-    return useQuery({
-        queryKey: ["etf-dividends"],
-        queryFn: async () => {
-            const result = await fetchETFData();
-            if (result.isErr()) throw new Error(result.error.message);
-            return result.value;
-        },
-        staleTime: 5 * 60 * 1000, // 5 minutes
-        refetchInterval: 60 * 1000, // Refetch every minute
-        retry: 3,
-    });
+    return useQuery(etfQueries.dividends());
 }
 
 export type { ETFData };
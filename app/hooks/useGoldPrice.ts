@@ -9,24 +9,14 @@
  * - Service layer: Uses fetchGoldPrice() from gold.service.ts
  */
 import { useQuery } from "@tanstack/react-query";
-import { fetchGoldPrice } from "~/services/gold.service";
+import { goldQueries } from "~/queries/gold.queries";
 import type { GoldData } from "~/services/gold.service";
 
 /**
  * Hook to fetch Gold price
  */
 export function useGoldPrice() {
-    return useQuery({
-        queryKey: ["gold-price"],
-        queryFn: async () => {
-            const result = await fetchGoldPrice();
-            if (result.isErr()) throw new Error(result.error.message);
-            return result.value;
-        },
-        staleTime: 1 * 60 * 1000, // 1 minute
-        refetchInterval: 60 * 1000, // Refetch every 60 seconds
-        retry: 3,
-    });
+    return useQuery(goldQueries.price());
 }
 
 export type { GoldData };
@@ -0,0 +1,36 @@
+/**
+ * Custom hook for observing the offline mutation outbox
+ *
+ * Lets mutation hooks and components show queued/replaying state
+ * - Subscribes with useSyncExternalStore, so it re-renders only when items change
+ * - Optionally narrowed to the items stored under one label (e.g. "users")
+ */
+import { useMemo, useSyncExternalStore } from "react";
+import { outbox, type OutboxItem } from "~/lib/outbox";
+
+// Stable server snapshot: the outbox is only replayed in the browser
+const EMPTY: readonly OutboxItem[] = [];
+
+/**
+ * Hook to read outbox items, optionally filtered by label
+ */
+export function useOutbox(label?: string) {
+    const items = useSyncExternalStore(
+        (listener) => outbox.subscribe(listener),
+        () => outbox.getSnapshot(),
+        () => EMPTY
+    );
+
+    const visible = useMemo(
+        () => (label === undefined ? items : items.filter((item) => item.label === label)),
+        [items, label]
+    );
+
+    return {
+        items: visible,
+        pending: visible.filter((item) => item.status === "queued" || item.status === "replaying"),
+        failed: visible.filter((item) => item.status === "failed"),
+        retry: (id: string) => outbox.retry(id),
+        remove: (id: string) => outbox.remove(id),
+    };
+}
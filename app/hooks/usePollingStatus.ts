@@ -0,0 +1,23 @@
+/**
+ * Custom hook for observing a polled query's schedule
+ *
+ * Tells feeds when their data refreshes next, or why polling is paused
+ * - Subscribes with useSyncExternalStore, so it re-renders only on status changes
+ * - Undefined until the query has been evaluated in the browser (and during SSR)
+ */
+import { hashKey, type QueryKey } from "@tanstack/react-query";
+import { useSyncExternalStore } from "react";
+import { pollingStatus, type PollingStatus } from "~/lib/polling";
+
+/**
+ * Hook to read the polling status of the query with the given key
+ */
+export function usePollingStatus(queryKey: QueryKey): PollingStatus | undefined {
+    const queryHash = hashKey(queryKey);
+
+    return useSyncExternalStore(
+        (listener) => pollingStatus.subscribe(listener),
+        () => pollingStatus.getSnapshot(queryHash),
+        () => undefined
+    );
+}
@@ -0,0 +1,23 @@
+/**
+ * Custom hook for observing recent api calls
+ *
+ * Reads the shared trace ring buffer filled by safeRequest
+ * - Subscribes with useSyncExternalStore, so it re-renders as calls start and end
+ * - Empty during SSR so server and client markup match
+ */
+import { useSyncExternalStore } from "react";
+import { traceBuffer, type TraceRecord } from "~/lib/tracing";
+
+// Stable server snapshot
+const EMPTY: readonly TraceRecord[] = [];
+
+/**
+ * Hook to read the most recent traced attempts, oldest first
+ */
+export function useRequestTraces(): readonly TraceRecord[] {
+    return useSyncExternalStore(
+        (listener) => traceBuffer.subscribe(listener),
+        () => traceBuffer.getSnapshot(),
+        () => EMPTY
+    );
+}
@@ -0,0 +1,26 @@
+/**
+ * Collects the query cache dehydrated by route loaders (see ~/lib/query-ssr.server)
+ * from every matched route, for the root HydrationBoundary
+ */
+import type { DehydratedState } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { useMatches } from "react-router";
+
+function hasDehydratedState(data: unknown): data is { dehydratedState: DehydratedState } {
+    return typeof data === "object" && data !== null && "dehydratedState" in data;
+}
+
+export function useRouteDehydratedState(): DehydratedState {
+    const matches = useMatches();
+
+    return useMemo(() => {
+        const states = matches
+            .map((match) => match.data)
+            .filter(hasDehydratedState)
+            .map((data) => data.dehydratedState);
+        return {
+            queries: states.flatMap((state) => state.queries),
+            mutations: states.flatMap((state) => state.mutations),
+        };
+    }, [matches]);
+}
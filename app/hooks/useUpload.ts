@@ -0,0 +1,55 @@
+/**
+ * Custom hook for uploading files with progress and resumable chunks
+ *
+ * Uses TanStack Query mutations on top of safeUpload()
+ * - Progress is exposed as React state for progress bars
+ * - A failed chunked upload of the same file resumes from the last
+ *   acknowledged chunk when mutate() is called again
+ */
+import { useMutation } from "@tanstack/react-query";
+import { useRef, useState } from "react";
+import { unwrapResult } from "~/lib/query-result";
+import {
+    safeUpload,
+    type UploadOptions,
+    type UploadProgress,
+    type UploadState,
+} from "~/lib/upload";
+
+/**
+ * Identify a file across retries without reading its contents
+ */
+function fileKey(file: Blob): string {
+    return file instanceof File
+        ? `${file.name}:${file.size}:${file.lastModified}`
+        : `blob:${file.size}:${file.type}`;
+}
+
+/**
+ * Hook to upload a file to the given URL
+ */
+export function useUpload<T>(
+    url: string,
+    options?: Omit<UploadOptions<T>, "resume" | "onProgress" | "onChunkComplete">
+) {
+    const [progress, setProgress] = useState<UploadProgress | null>(null);
+    const resumeStates = useRef(new Map<string, UploadState>());
+
+    const mutation = useMutation({
+        mutationFn: async (file: Blob) => {
+            const key = fileKey(file);
+            const result = await safeUpload<T>(url, file, {
+                ...options,
+                resume: resumeStates.current.get(key),
+                onProgress: setProgress,
+                onChunkComplete: (state) => resumeStates.current.set(key, state),
+            });
+            const uploaded = unwrapResult(result);
+
+            resumeStates.current.delete(key);
+            return uploaded;
+        },
+    });
+
+    return { ...mutation, progress };
+}
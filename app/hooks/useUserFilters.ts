@@ -0,0 +1,35 @@
+/**
+ * Custom hook for the user directory view state in the URL
+ *
+ * Reads validated filters from the search params (see ~/services/user-filters) and
+ * writes changes back. Filter changes go back to page 1 and replace the history
+ * entry (typing in the search box must not add one per keystroke); page changes push one.
+ */
+import { useSearchParams } from "react-router";
+import {
+    DEFAULT_USER_FILTERS,
+    parseUserFilters,
+    toUserSearchParams,
+} from "~/services/user-filters";
+import type { UserFilters } from "~/types/users.type";
+
+export function useUserFilters() {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filters = parseUserFilters(searchParams);
+
+    const setFilters = (changes: Partial<Omit<UserFilters, "page">>) =>
+        setSearchParams(toUserSearchParams({ ...filters, ...changes, page: 1 }), {
+            replace: true,
+            preventScrollReset: true,
+        });
+
+    const setPage = (page: number) =>
+        setSearchParams(toUserSearchParams({ ...filters, page }), { preventScrollReset: true });
+
+    const resetFilters = () =>
+        setSearchParams(toUserSearchParams(DEFAULT_USER_FILTERS), { replace: true });
+
+    const isFiltered = filters.q !== "" || filters.city !== "" || filters.company !== "";
+
+    return { filters, setFilters, setPage, resetFilters, isFiltered };
+}
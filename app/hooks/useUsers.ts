@@ -8,34 +8,261 @@
  * - err-retry-config: Configured retry logic
  * - perf-select-transform: Supports data transformation
  * - Service layer: Uses fetchUsers() from user.service.ts
+ * - Mutations update the cache optimistically and roll back on failure
  */
-import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+    useInfiniteQuery,
+    useMutation,
+    useQuery,
+    useQueryClient,
+    type InfiniteData,
+    type QueryClient,
+    type QueryKey,
+} from "@tanstack/react-query";
+import { useEffect } from "react";
+import type { Page } from "~/lib/api";
+import { QueuedError } from "~/lib/errors";
+import { outbox } from "~/lib/outbox";
+import { resultMutationFn } from "~/lib/query-result";
 import { userKeys } from "~/lib/query-keys";
-import { createUser, fetchUsers } from "~/services/user.service";
-import type { User } from "~/types/users.type";
+import { userQueries } from "~/queries/users.queries";
+import { createUser, deleteUser, updateUser } from "~/services/user.service";
+import { filterUsers } from "~/services/user-filters";
+import type { User, UserFilters } from "~/types/users.type";
+import { useOutbox } from "./useOutbox";
 
 
 /**
  * Hook to fetch all users
  */
 export function useUsers() {
-    return useQuery({
-        queryKey: userKeys.lists(),
-        queryFn: async () => {
-            const result = await fetchUsers();
-            if (result.isErr()) throw new Error(result.error.message);
-            return result.value;
+    return useQuery(userQueries.list());
+}
+
+/**
+ * Hook to fetch one page of the searched, filtered and sorted directory
+ * Keeps showing the previous page while a new view loads (QueryClient placeholderData)
+ */
+export function useFilteredUsers(filters: UserFilters) {
+    return useQuery(userQueries.filtered(filters));
+}
+
+/**
+ * Hook to fetch users page by page (fetchNextPage / hasNextPage)
+ */
+export function useInfiniteUsers() {
+    return useInfiniteQuery(userQueries.infinite());
+}
+
+// Outbox label for user mutations
+const USERS_OUTBOX = "users";
+
+// Cached shapes patched in place: the full list and infinite pages (filtered views are derived)
+type UserListData = User[] | InfiniteData<Page<User>>;
+
+// Cache entries as they were before an optimistic update
+interface UserCacheSnapshot {
+    previous: Array<[QueryKey, unknown]>;
+}
+
+/**
+ * Filters of a userKeys.filtered() entry, null for the other lists
+ */
+function filtersOf(queryKey: QueryKey): UserFilters | null {
+    const filters = queryKey[userKeys.lists().length];
+    return typeof filters === "object" && filters !== null ? (filters as UserFilters) : null;
+}
+
+/**
+ * Rewrite every cached user list; `isLast` marks the list new users are appended to
+ * Filtered views are recomputed from the updated full list instead of patched, so
+ * their search, filters, page size and totals still hold
+ */
+function updateUserLists(
+    queryClient: QueryClient,
+    update: (users: User[], isLast: boolean) => User[]
+): void {
+    queryClient.setQueriesData<UserListData>(
+        { queryKey: userKeys.lists(), predicate: (query) => filtersOf(query.queryKey) === null },
+        (data) => {
+            if (!data) return data;
+            if (Array.isArray(data)) return update(data, true);
+            return {
+                ...data,
+                pages: data.pages.map((page, index) => ({
+                    ...page,
+                    items: update(page.items, index === data.pages.length - 1),
+                })),
+            };
+        }
+    );
+
+    const users = queryClient.getQueryData(userQueries.list().queryKey);
+    if (!users) return;
+    queryClient
+        .getQueryCache()
+        .findAll({ queryKey: userKeys.lists() })
+        .forEach((query) => {
+            const filters = filtersOf(query.queryKey);
+            if (filters && query.state.data !== undefined) {
+                queryClient.setQueryData(query.queryKey, filterUsers(users, filters));
+            }
+        });
+}
+
+/**
+ * Stop in-flight user fetches (so they cannot overwrite the optimistic state) and snapshot the cache
+ */
+async function snapshotUsers(queryClient: QueryClient): Promise<UserCacheSnapshot> {
+    await queryClient.cancelQueries({ queryKey: userKeys.all });
+    return { previous: queryClient.getQueriesData({ queryKey: userKeys.all }) };
+}
+
+/**
+ * Undo an optimistic update - except for queued mutations, which the outbox
+ * replays later: their optimistic state stays until the replay settles
+ */
+function rollbackUsers(
+    queryClient: QueryClient,
+    error: Error,
+    snapshot: UserCacheSnapshot | undefined
+): void {
+    if (QueuedError.is(error) || !snapshot) return;
+    snapshot.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+/**
+ * Mark user queries stale once a mutation settles. The server response already
+ * reconciled the cache, so they refetch on next use instead of right away
+ */
+function settleUsers(queryClient: QueryClient, error: Error | null): Promise<void> {
+    if (QueuedError.is(error)) return Promise.resolve();
+    return queryClient.invalidateQueries({ queryKey: userKeys.all, refetchType: "none" });
+}
+
+/**
+ * Refetch user lists whenever a queued user mutation has been replayed (or given up on)
+ */
+function useUsersOutbox() {
+    const queryClient = useQueryClient();
+    const { pending } = useOutbox(USERS_OUTBOX);
+
+    useEffect(
+        () =>
+            outbox.onSettled((item) => {
+                if (item.label === USERS_OUTBOX) {
+                    // Several mounted hooks react to the same item - share one refetch
+                    void queryClient.invalidateQueries(
+                        { queryKey: userKeys.lists() },
+                        { cancelRefetch: false }
+                    );
+                }
+            }),
+        [queryClient]
+    );
+
+    return pending;
+}
+
+/**
+ * Mutation hook for creating a user
+ * The user shows up in every cached list right away and is replaced by the server's copy.
+ * Offline (or unreachable) creates are queued in the outbox: the mutation then
+ * fails with QueuedError (`isQueued`), keeps the optimistic user and the list
+ * refetches once replayed
+ */
+export function useCreateUser() {
+    const queryClient = useQueryClient();
+    const queued = useUsersOutbox();
+
+    const mutation = useMutation<User, Error, User, UserCacheSnapshot>({
+        mutationFn: resultMutationFn((data: User) =>
+            createUser(data, { outbox, outboxLabel: USERS_OUTBOX })
+        ),
+        onMutate: async (data) => {
+            const snapshot = await snapshotUsers(queryClient);
+            updateUserLists(queryClient, (users, isLast) => (isLast ? [...users, data] : users));
+            return snapshot;
+        },
+        onError: (error, _data, snapshot) => rollbackUsers(queryClient, error, snapshot),
+        onSuccess: (created, data) => {
+            updateUserLists(queryClient, (users) =>
+                users.map((user) => (user.id === data.id ? created : user))
+            );
+            queryClient.setQueryData(userKeys.detail(created.id), created);
         },
+        onSettled: (_created, error) => settleUsers(queryClient, error),
     });
+
+    return {
+        ...mutation,
+        isQueued: QueuedError.is(mutation.error),
+        queued,
+    };
 }
 
-// Mutation hook example
-export function useCreateUser() {
-    return useMutation({
-        mutationFn: async (data: User) => {
-            const result = await createUser(data);
-            if (result.isErr()) throw new Error(result.error.message);
-            return result.value;
+/**
+ * Mutation hook for updating a user (pass the full, edited user)
+ * Lists and the detail cache show the edit immediately; see useCreateUser for queueing
+ */
+export function useUpdateUser() {
+    const queryClient = useQueryClient();
+    const queued = useUsersOutbox();
+
+    const mutation = useMutation<User, Error, User, UserCacheSnapshot>({
+        mutationFn: resultMutationFn((data: User) =>
+            updateUser(data.id, data, { outbox, outboxLabel: USERS_OUTBOX })
+        ),
+        onMutate: async (data) => {
+            const snapshot = await snapshotUsers(queryClient);
+            updateUserLists(queryClient, (users) =>
+                users.map((user) => (user.id === data.id ? data : user))
+            );
+            queryClient.setQueryData(userKeys.detail(data.id), data);
+            return snapshot;
+        },
+        onError: (error, _data, snapshot) => rollbackUsers(queryClient, error, snapshot),
+        onSuccess: (updated) => {
+            updateUserLists(queryClient, (users) =>
+                users.map((user) => (user.id === updated.id ? updated : user))
+            );
+            queryClient.setQueryData(userKeys.detail(updated.id), updated);
         },
+        onSettled: (_updated, error) => settleUsers(queryClient, error),
     });
+
+    return {
+        ...mutation,
+        isQueued: QueuedError.is(mutation.error),
+        queued,
+    };
+}
+
+/**
+ * Mutation hook for deleting a user by ID
+ * The user disappears from every list at once and comes back if the delete fails
+ */
+export function useDeleteUser() {
+    const queryClient = useQueryClient();
+    const queued = useUsersOutbox();
+
+    const mutation = useMutation<User, Error, number, UserCacheSnapshot>({
+        mutationFn: resultMutationFn((id: number) =>
+            deleteUser(id, { outbox, outboxLabel: USERS_OUTBOX })
+        ),
+        onMutate: async (id) => {
+            const snapshot = await snapshotUsers(queryClient);
+            updateUserLists(queryClient, (users) => users.filter((user) => user.id !== id));
+            queryClient.removeQueries({ queryKey: userKeys.detail(id), exact: true });
+            return snapshot;
+        },
+        onError: (error, _id, snapshot) => rollbackUsers(queryClient, error, snapshot),
+        onSettled: (_deleted, error) => settleUsers(queryClient, error),
+    });
+
+    return {
+        ...mutation,
+        isQueued: QueuedError.is(mutation.error),
+        queued,
+    };
 }
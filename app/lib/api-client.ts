@@ -0,0 +1,140 @@
+/**
+ * API client factory
+ * Binds the safe* wrappers to a base URL and default options so services
+ * can be re-pointed (staging, local stand-ins) through configuration
+ */
+import type { Result } from "better-result";
+import {
+    safeDelete,
+    safeDownload,
+    safeFetch,
+    safeFetchPage,
+    safePaginate,
+    safePatch,
+    safePost,
+    safePostUpload,
+    safePut,
+    safeRequest,
+    type DownloadOptions,
+    type DownloadResult,
+    type FetchOptions,
+    type MutationOptions,
+    type Page,
+    type PageParam,
+    type PaginateOptions,
+    type RequestOptions,
+} from "./api";
+import type { FetchError } from "./errors";
+import { mergeHeaders } from "./http";
+import { InterceptorChain, type Interceptor } from "./interceptors";
+import type { RetryOption } from "./retry";
+
+export interface ApiClientConfig {
+    baseUrl: string;
+    headers?: HeadersInit;
+    timeout?: number;
+    retry?: RetryOption;
+    interceptors?: readonly Interceptor[];
+}
+
+export interface ApiClient {
+    readonly baseUrl: string;
+    // Interceptors that only apply to this client's requests
+    readonly interceptors: InterceptorChain;
+    url(path: string): string;
+    request(path: string, options?: RequestOptions): Promise<Result<Response, FetchError>>;
+    get<T>(path: string, options?: FetchOptions<T>): Promise<Result<T, FetchError>>;
+    page<T, B = T[]>(
+        path: string,
+        pageParam: PageParam,
+        options: PaginateOptions<T, B>
+    ): Promise<Result<Page<T>, FetchError>>;
+    paginate<T, B = T[]>(
+        path: string,
+        options: PaginateOptions<T, B>
+    ): AsyncGenerator<Result<Page<T>, FetchError>>;
+    post<T, B = unknown>(
+        path: string,
+        body: B,
+        options?: Omit<MutationOptions<T>, "method" | "body">
+    ): Promise<Result<T, FetchError>>;
+    put<T, B = unknown>(
+        path: string,
+        body: B,
+        options?: Omit<MutationOptions<T>, "method" | "body">
+    ): Promise<Result<T, FetchError>>;
+    patch<T, B = unknown>(
+        path: string,
+        body: B,
+        options?: Omit<MutationOptions<T>, "method" | "body">
+    ): Promise<Result<T, FetchError>>;
+    delete<T>(
+        path: string,
+        options?: Omit<MutationOptions<T>, "method">
+    ): Promise<Result<T, FetchError>>;
+    upload<T>(
+        path: string,
+        formData: FormData,
+        options?: Omit<FetchOptions<T>, "method" | "body">
+    ): Promise<Result<T, FetchError>>;
+    download(
+        path: string,
+        options?: Omit<DownloadOptions, "as">
+    ): Promise<Result<DownloadResult, FetchError>>;
+}
+
+/**
+ * Join a base URL and a path without doubling or dropping slashes
+ * Absolute URLs are returned untouched
+ */
+function joinUrl(baseUrl: string, path: string): string {
+    if (/^[a-z][a-z\d+\-.]*:\/\//i.test(path)) return path;
+    return `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Create an API client bound to a base URL and default request options
+ * Per-call options override the client defaults, which override the global ones
+ */
+export function createApiClient(config: ApiClientConfig): ApiClient {
+    const interceptors = new InterceptorChain();
+    config.interceptors?.forEach((interceptor) => interceptors.use(interceptor));
+
+    const withDefaults = <O extends RequestOptions>(options?: O) => ({
+        timeout: config.timeout,
+        retry: config.retry,
+        ...options,
+        headers: mergeHeaders(config.headers, options?.headers),
+        interceptors: [...interceptors.list(), ...(options?.interceptors ?? [])],
+    });
+
+    const url = (path: string) => joinUrl(config.baseUrl, path);
+
+    return {
+        baseUrl: config.baseUrl,
+        interceptors,
+        url,
+        request: (path, options) => safeRequest(url(path), withDefaults(options)),
+        get: (path, options) => safeFetch(url(path), withDefaults(options)),
+        // The defaults merge is typed for plain RequestOptions; spreading `options` first
+        // keeps the required `pagination` (and `items`) in the resulting type
+        page: (path, pageParam, options) =>
+            safeFetchPage(url(path), pageParam, { ...options, ...withDefaults(options) }),
+        paginate: (path, options) =>
+            safePaginate(url(path), { ...options, ...withDefaults(options) }),
+        post: (path, body, options) => safePost(url(path), body, withDefaults(options)),
+        put: (path, body, options) => safePut(url(path), body, withDefaults(options)),
+        patch: (path, body, options) => safePatch(url(path), body, withDefaults(options)),
+        delete: (path, options) => safeDelete(url(path), withDefaults(options)),
+        upload: (path, formData, options) => {
+            // Uploads, like downloads, keep their own default of no deadline
+            const uploadOptions = { ...withDefaults(options), timeout: options?.timeout };
+            // The browser sets the multipart Content-Type (with boundary) itself
+            uploadOptions.headers.delete("Content-Type");
+            return safePostUpload(url(path), formData, uploadOptions);
+        },
+        // Downloads keep their own default of no deadline unless the call sets one
+        download: (path, options) =>
+            safeDownload(url(path), { ...withDefaults(options), timeout: options?.timeout }),
+    };
+}
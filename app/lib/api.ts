@@ -3,67 +3,630 @@
  * Following TanStack Query best practices with Result types
  */
 import { Result } from "better-result";
-import { ApiError, NetworkError, ParseError, type FetchError } from "./errors";
+import { circuitBreaker, hostOf, type CircuitBreaker } from "./circuit-breaker";
+import {
+    AbortedError,
+    ApiError,
+    CircuitOpenError,
+    NetworkError,
+    ParseError,
+    TimeoutError,
+    ValidationError,
+    isFetchError,
+    type FetchError,
+} from "./errors";
+import {
+    getRetryDelay,
+    parseRetryAfter,
+    resolveRetryPolicy,
+    sleep,
+    type RetryOption,
+} from "./retry";
+import {
+    mergeHeaders,
+    parseContentDisposition,
+    parseContentLength,
+    parseLinkHeader,
+    readTextCapped,
+    withSearchParams,
+} from "./http";
+import { conditionalHeaders, httpCache, HttpValidatorCache } from "./http-cache";
+import {
+    globalInterceptors,
+    runRequestInterceptors,
+    runResponseInterceptors,
+    type Interceptor,
+} from "./interceptors";
+import type { Outbox, OutboxMethod } from "./outbox";
+import { toProblemDetails, type ProblemDetails } from "./problem-details";
+import type { Schema } from "./schema";
+import { tracer as defaultTracer, type Tracer } from "./tracing";
 
 /**
- * Base request wrapper that returns Response
- * All other safe* functions reuse this for consistent error handling
+ * Options accepted by every safe* wrapper
+ * `timeout` is in milliseconds per attempt; 0 disables the deadline for this call
+ * `retry` overrides the global retry policy for this call
+ * `interceptors` run after the global ones (used by api clients)
+ * `circuitBreaker` swaps or (with `false`) bypasses the shared breaker
+ * `tracer` swaps or (with `false`) disables the shared request tracer
  */
-export async function safeRequest(
+export interface RequestOptions extends RequestInit {
+    timeout?: number;
+    retry?: RetryOption;
+    interceptors?: readonly Interceptor[];
+    circuitBreaker?: CircuitBreaker | false;
+    tracer?: Tracer | false;
+}
+
+/**
+ * Options for the JSON wrappers
+ * When `schema` is given the parsed body is validated and typed by it
+ * `validatorCache` enables conditional GETs (`true` uses the shared httpCache)
+ */
+export interface FetchOptions<T> extends RequestOptions {
+    schema?: Schema<T>;
+    validatorCache?: HttpValidatorCache | boolean;
+}
+
+/**
+ * Options for the mutation wrappers (POST/PUT/PATCH/DELETE)
+ * With an `outbox`, a mutation that cannot reach the server is stored and
+ * replayed later; the call then returns a QueuedError
+ */
+export interface MutationOptions<T> extends FetchOptions<T> {
+    outbox?: Outbox;
+    // Label stored on the outbox item so hooks can recognise their own mutations
+    outboxLabel?: string;
+}
+
+/**
+ * Resolve the validator cache for a request - only GETs are cached
+ */
+function resolveValidatorCache(
+    option: HttpValidatorCache | boolean | undefined,
+    method: string | undefined
+): HttpValidatorCache | null {
+    if (!option || (method ?? "GET").toUpperCase() !== "GET") return null;
+    return option === true ? httpCache : option;
+}
+
+/**
+ * Defaults applied to every request unless overridden per call
+ */
+export interface ApiDefaults {
+    timeout: number;
+    retry: RetryOption;
+    // Upper bound on how much of an error response body ApiError keeps
+    maxErrorBodyBytes: number;
+    // Transport behind every request - swapped by fixture mode (see ./fixtures)
+    fetch: typeof fetch;
+}
+
+const apiDefaults: ApiDefaults = {
+    // Upstream feeds should answer well within 15 seconds
+    timeout: 15 * 1000,
+    // One quick retry of safe methods, so callers outside TanStack Query also ride out
+    // a blip; kept small because query hooks add their own retries on top
+    retry: { maxAttempts: 2, maxDelayMs: 2 * 1000, methods: ["GET", "HEAD", "OPTIONS"] },
+    maxErrorBodyBytes: 64 * 1024,
+    // Resolved per call so a patched global fetch is still picked up
+    fetch: (input, init) => fetch(input, init),
+};
+
+/**
+ * Override the global request defaults (e.g. at app startup or in tests)
+ */
+export function setApiDefaults(defaults: Partial<ApiDefaults>): void {
+    Object.assign(apiDefaults, defaults);
+}
+
+/**
+ * Read the current global request defaults
+ */
+export function getApiDefaults(): Readonly<ApiDefaults> {
+    return apiDefaults;
+}
+
+/**
+ * Resolve the effective timeout for a call (per-call option wins over the global default)
+ */
+function resolveTimeout(options?: RequestOptions): number {
+    return options?.timeout ?? apiDefaults.timeout;
+}
+
+/**
+ * Combine the caller's AbortSignal with a timeout signal
+ * Either one aborting cancels the request, including reading the body
+ */
+function composeSignal(
+    signal: AbortSignal | null | undefined,
+    timeoutMs: number
+): AbortSignal | undefined {
+    const signals: AbortSignal[] = [];
+    if (signal) signals.push(signal);
+    if (timeoutMs > 0) signals.push(AbortSignal.timeout(timeoutMs));
+
+    if (signals.length === 0) return undefined;
+    return signals.length === 1 ? signals[0] : AbortSignal.any(signals);
+}
+
+/**
+ * Map anything thrown while sending a request or reading its body to a FetchError
+ * Caller cancellation wins over the timeout when both signals have fired
+ */
+function toFetchError(
+    error: unknown,
+    url: string,
+    options?: RequestOptions,
+    attempts = 1
+): FetchError {
+    if (isFetchError(error)) {
+        return error;
+    }
+    if (options?.signal?.aborted) {
+        return new AbortedError({ url, reason: options.signal.reason, attempts });
+    }
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+        return new TimeoutError({ url, timeoutMs: resolveTimeout(options), attempts });
+    }
+    if (error instanceof DOMException && error.name === "AbortError") {
+        return new AbortedError({ url, reason: error, attempts });
+    }
+    return new NetworkError({ url, cause: error, attempts });
+}
+
+// Attempts it took to get each successful response, for errors raised while reading it
+const responseAttempts = new WeakMap<Response, number>();
+
+/**
+ * Read the body of a failed response for ApiError
+ * JSON bodies are parsed (problem+json also normalised); anything else stays text.
+ * A body that cannot be read is simply left out rather than masking the status error.
+ */
+async function readErrorBody(
+    response: Response
+): Promise<{ body: unknown; problem: ProblemDetails | undefined }> {
+    const textResult = await Result.tryPromise(() =>
+        readTextCapped(response, apiDefaults.maxErrorBodyBytes)
+    );
+    if (textResult.isErr() || textResult.value.text === "") {
+        return { body: undefined, problem: undefined };
+    }
+
+    const { text, truncated } = textResult.value;
+    const contentType = response.headers.get("Content-Type") ?? "";
+    const isJson = /[/+]json\b/i.test(contentType);
+    const body = isJson && !truncated ? Result.try(() => JSON.parse(text)).unwrapOr(text) : text;
+    const problem = /application\/problem\+json/i.test(contentType)
+        ? toProblemDetails(body)
+        : undefined;
+
+    return { body, problem };
+}
+
+/**
+ * Options safeFetch sends with a conditional request (see validatorCache)
+ * A 304 answering it is a successful revalidation, not an ApiError - so it never
+ * reaches onError interceptors, error traces or the circuit breaker as a failure
+ */
+interface ConditionalRequestOptions extends RequestOptions {
+    acceptNotModified?: boolean;
+}
+
+/**
+ * Single attempt of a request - the timeout applies to each attempt separately
+ */
+async function attemptRequest(
     url: string,
-    options?: RequestInit
+    options: ConditionalRequestOptions | undefined,
+    attempt: number
 ): Promise<Result<Response, FetchError>> {
+    const {
+        timeout: _timeout,
+        retry: _retry,
+        interceptors: _interceptors,
+        circuitBreaker: _circuitBreaker,
+        tracer: _tracer,
+        acceptNotModified,
+        ...init
+    } = options ?? {};
+
     return Result.tryPromise({
         try: async () => {
-            const response = await fetch(url, options);
+            const response = await apiDefaults.fetch(url, {
+                ...init,
+                signal: composeSignal(init.signal, resolveTimeout(options)),
+            });
 
-            if (!response.ok) {
+            if (!response.ok && !(acceptNotModified && response.status === 304)) {
                 throw new ApiError({
                     status: response.status,
                     statusText: response.statusText,
                     url,
+                    attempts: attempt,
+                    retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+                    ...(await readErrorBody(response)),
                 });
             }
 
             return response;
         },
+        catch: (error) => toFetchError(error, url, options, attempt),
+    });
+}
+
+/**
+ * Send a request, retrying failed attempts according to the call's (or the global) retry policy
+ */
+async function sendWithRetry(
+    url: string,
+    options: RequestOptions | undefined
+): Promise<Result<Response, FetchError>> {
+    const policy = resolveRetryPolicy(options?.retry ?? apiDefaults.retry);
+    const method = options?.method ?? "GET";
+    const breaker = options?.circuitBreaker ?? circuitBreaker;
+    const host = breaker ? hostOf(url) : null;
+    const tracer = options?.tracer ?? defaultTracer;
+    const requestId = tracer ? tracer.nextRequestId() : "";
+
+    for (let attempt = 1; ; attempt++) {
+        const span = tracer
+            ? tracer.start({ requestId, attempt, method, url, headers: options?.headers })
+            : null;
+
+        // Fail fast while the host's circuit is open - this also ends any retries
+        const openCircuit = breaker && host ? breaker.acquire(host) : null;
+        if (openCircuit) {
+            const rejected = Result.err(
+                new CircuitOpenError({
+                    host: openCircuit.host,
+                    url,
+                    retryAt: openCircuit.retryAt,
+                    attempts: attempt,
+                })
+            );
+            span?.end(rejected);
+            return rejected;
+        }
+
+        const result = await attemptRequest(url, options, attempt);
+        span?.end(result);
+        if (breaker && host) {
+            breaker.record(host, result.isErr() ? result.error : null);
+        }
+        if (result.isOk()) {
+            responseAttempts.set(result.value, attempt);
+            return result;
+        }
+        if (!policy) {
+            return result;
+        }
+
+        const delay = getRetryDelay(result.error, attempt, method, policy);
+        if (delay === null) {
+            return result;
+        }
+
+        const waited = await Result.tryPromise({
+            try: () => sleep(delay, options?.signal),
+            catch: () =>
+                new AbortedError({ url, reason: options?.signal?.reason, attempts: attempt }),
+        });
+        if (waited.isErr()) {
+            return Result.err(waited.error);
+        }
+    }
+}
+
+/**
+ * Base request wrapper that returns Response
+ * All other safe* functions reuse this for consistent error handling
+ * Interceptors wrap the whole request, including its retries
+ */
+export async function safeRequest(
+    url: string,
+    options?: RequestOptions
+): Promise<Result<Response, FetchError>> {
+    const interceptors = [...globalInterceptors.list(), ...(options?.interceptors ?? [])];
+    if (interceptors.length === 0) {
+        return sendWithRetry(url, options);
+    }
+
+    const requestResult = await runRequestInterceptors(interceptors, {
+        url,
+        options: options ?? {},
+    });
+    if (requestResult.isErr()) {
+        return Result.err(requestResult.error);
+    }
+
+    const request = requestResult.value;
+    const result = await sendWithRetry(request.url, request.options);
+    return runResponseInterceptors(interceptors, request, result);
+}
+
+/**
+ * Parse a JSON response body, validating it when a schema is given
+ */
+async function readJson<T>(
+    response: Response,
+    url: string,
+    options: RequestOptions | undefined,
+    schema: Schema<T> | undefined
+): Promise<Result<T, FetchError>> {
+    const attempts = responseAttempts.get(response) ?? 1;
+    const bodyResult = await Result.tryPromise({
+        try: async () => response.json() as Promise<unknown>,
         catch: (error) => {
-            if (error instanceof ApiError) {
-                return error;
-            }
-            if (error instanceof TypeError && error.message.includes("fetch")) {
-                return new NetworkError({ url, cause: error });
+            if (error instanceof SyntaxError) {
+                return new ParseError({ cause: error, attempts });
             }
-            return new NetworkError({ url, cause: error });
+            return toFetchError(error, url, options, attempts);
         },
     });
+
+    if (bodyResult.isErr() || !schema) {
+        return bodyResult as Result<T, FetchError>;
+    }
+    return schema
+        .validate(bodyResult.value)
+        .mapError((error) =>
+            attempts === 1
+                ? error
+                : new ValidationError({
+                      path: error.path,
+                      expected: error.expected,
+                      received: error.received,
+                      attempts,
+                  })
+        );
 }
 
 /**
  * Type-safe fetch wrapper that returns JSON Result
  * Reuses safeRequest for consistent error handling
+ * Without a schema the body is trusted to be T; with one it is validated
+ * With a validator cache, a 304 Not Modified resolves to the cached value
  */
 export async function safeFetch<T>(
     url: string,
-    options?: RequestInit
+    options?: FetchOptions<T>
 ): Promise<Result<T, FetchError>> {
-    const responseResult = await safeRequest(url, options);
+    const { schema, validatorCache, ...requestOptions } = options ?? {};
+    const cache = resolveValidatorCache(validatorCache, requestOptions.method);
+    const cached = cache?.get(url);
+
+    const conditionalOptions: ConditionalRequestOptions | undefined = cached
+        ? {
+              ...requestOptions,
+              headers: mergeHeaders(conditionalHeaders(cached), requestOptions.headers),
+              acceptNotModified: true,
+          }
+        : undefined;
+    const responseResult = await safeRequest(url, conditionalOptions ?? requestOptions);
 
     if (responseResult.isErr()) {
         return Result.err(responseResult.error);
     }
+    if (cache && cached && responseResult.value.status === 304) {
+        cache.recordHit();
+        return Result.ok(cached.value as T);
+    }
 
-    return Result.tryPromise({
-        try: async () => responseResult.value.json() as Promise<T>,
-        catch: (error) => {
-            if (error instanceof SyntaxError) {
-                return new ParseError({ cause: error });
-            }
-            return new NetworkError({ url, cause: error });
-        },
+    const valueResult = await readJson(responseResult.value, url, requestOptions, schema);
+
+    if (cache && valueResult.isOk()) {
+        const { headers } = responseResult.value;
+        cache.recordMiss();
+        if (headers.has("ETag") || headers.has("Last-Modified")) {
+            cache.set({
+                url,
+                etag: headers.get("ETag"),
+                lastModified: headers.get("Last-Modified"),
+                value: valueResult.value,
+                storedAt: Date.now(),
+            });
+        }
+    }
+
+    return valueResult;
+}
+
+/**
+ * How an endpoint pages its results
+ * - offset: `offsetParam`/`limitParam` query parameters; X-Total-Count is read when sent
+ * - cursor: `cursorParam` carries the token that `nextCursor` finds in the body
+ * - link: follows RFC 8288 `Link: <...>; rel="next"` headers
+ */
+export type Pagination<B> =
+    | { type: "offset"; limit: number; offsetParam?: string; limitParam?: string }
+    | {
+          type: "cursor";
+          cursorParam?: string;
+          nextCursor: (body: B) => string | null | undefined;
+      }
+    | { type: "link" };
+
+/**
+ * Position of a page: an offset, a cursor token or a next-page URL (null = first page)
+ */
+export type PageParam = number | string | null;
+
+export interface Page<T> {
+    items: T[];
+    // Param of the following page, null on the last one (fits getNextPageParam)
+    next: PageParam;
+    total: number | null;
+}
+
+interface PaginateBaseOptions<B> extends RequestOptions {
+    pagination: Pagination<B>;
+    schema?: Schema<B>;
+    // Upper bound on pages fetched by safePaginate
+    maxPages?: number;
+}
+
+/**
+ * Options for safeFetchPage/safePaginate
+ * `schema` validates each page body (B); `items` picks the page's items out of it.
+ * `items` can only be left out for endpoints that answer with a plain array (B = T[]);
+ * a page body that is not an array then fails with a ParseError
+ */
+export type PaginateOptions<T, B = T[]> = PaginateBaseOptions<B> &
+    ([B] extends [T[]] ? { items?: (body: B) => T[] } : { items: (body: B) => T[] });
+
+/**
+ * Param of the first page - use as useInfiniteQuery's `initialPageParam`
+ */
+export function getInitialPageParam<B>(pagination: Pagination<B>): PageParam {
+    return pagination.type === "offset" ? 0 : null;
+}
+
+function pageUrlFor<B>(url: string, pagination: Pagination<B>, pageParam: PageParam): string {
+    switch (pagination.type) {
+        case "offset":
+            return withSearchParams(url, {
+                [pagination.offsetParam ?? "offset"]: String(pageParam ?? 0),
+                [pagination.limitParam ?? "limit"]: String(pagination.limit),
+            });
+        case "cursor":
+            return pageParam === null
+                ? url
+                : withSearchParams(url, { [pagination.cursorParam ?? "cursor"]: String(pageParam) });
+        case "link":
+            return typeof pageParam === "string" ? pageParam : url;
+    }
+}
+
+function nextPageParam<B>(
+    pagination: Pagination<B>,
+    pageParam: PageParam,
+    page: { body: B; itemCount: number; total: number | null; response: Response; url: string }
+): PageParam {
+    switch (pagination.type) {
+        case "offset": {
+            const end = (typeof pageParam === "number" ? pageParam : 0) + page.itemCount;
+            const isLast =
+                page.itemCount < pagination.limit || (page.total !== null && end >= page.total);
+            return isLast ? null : end;
+        }
+        case "cursor":
+            return pagination.nextCursor(page.body) || null;
+        case "link": {
+            const next = parseLinkHeader(page.response.headers.get("Link")).get("next");
+            if (!next) return null;
+            // Targets may be relative to the page that carried them
+            return Result.try(() => new URL(next, page.url).href).unwrapOr(next);
+        }
+    }
+}
+
+/**
+ * Fetch one page - the building block for useInfiniteQuery's queryFn
+ * Returns the page's items, its total (X-Total-Count) and the next page's param
+ */
+export async function safeFetchPage<T, B = T[]>(
+    url: string,
+    pageParam: PageParam,
+    options: PaginateOptions<T, B>
+): Promise<Result<Page<T>, FetchError>> {
+    const { pagination, schema, items, maxPages: _maxPages, ...requestOptions } = options;
+    const pageUrl = pageUrlFor(url, pagination, pageParam);
+
+    const responseResult = await safeRequest(pageUrl, requestOptions);
+    if (responseResult.isErr()) {
+        return Result.err(responseResult.error);
+    }
+
+    const response = responseResult.value;
+    const bodyResult = await readJson(response, pageUrl, requestOptions, schema);
+    if (bodyResult.isErr()) {
+        return Result.err(bodyResult.error);
+    }
+
+    const body = bodyResult.value;
+    if (!items && !Array.isArray(body)) {
+        return Result.err(
+            new ParseError({
+                cause: new TypeError("Page body is not an array - pass `items` to pick the items"),
+            })
+        );
+    }
+    const pageItems: T[] = items ? items(body) : (body as T[]);
+    const total = parseContentLength(response.headers.get("X-Total-Count"));
+
+    return Result.ok({
+        items: pageItems,
+        total,
+        next: nextPageParam(pagination, pageParam, {
+            body,
+            itemCount: pageItems.length,
+            total,
+            response,
+            url: pageUrl,
+        }),
     });
 }
 
+/**
+ * Walk every page of an endpoint, one Result per page
+ * Iteration stops after the last page, after `maxPages`, or after yielding an error
+ */
+export async function* safePaginate<T, B = T[]>(
+    url: string,
+    options: PaginateOptions<T, B>
+): AsyncGenerator<Result<Page<T>, FetchError>> {
+    let pageParam = getInitialPageParam(options.pagination);
+
+    for (let count = 0; count < (options.maxPages ?? Infinity); count++) {
+        const page = await safeFetchPage<T, B>(url, pageParam, options);
+        yield page;
+        if (page.isErr() || page.value.next === null) return;
+        pageParam = page.value.next;
+    }
+}
+
+/**
+ * Shared implementation of the mutation wrappers
+ * Sends through safeFetch, queueing in the outbox (when given) if the server is unreachable
+ * or older mutations for the same label or host are still queued
+ */
+async function safeMutation<T>(
+    url: string,
+    method: OutboxMethod,
+    body: string | undefined,
+    options: Omit<MutationOptions<T>, "method" | "body"> | undefined
+): Promise<Result<T, FetchError>> {
+    const { outbox, outboxLabel, ...fetchOptions } = options ?? {};
+    const headers =
+        body === undefined
+            ? fetchOptions.headers
+            : mergeHeaders({ "Content-Type": "application/json" }, fetchOptions.headers);
+
+    if (!outbox) {
+        return safeFetch<T>(url, { ...fetchOptions, method, headers, body });
+    }
+
+    const queue = () => outbox.enqueue({ method, url, headers, body, label: outboxLabel });
+    if (!outbox.isOnline()) {
+        return queue();
+    }
+
+    // Earlier queued mutations for the same resource go first: replay them, and if
+    // some still cannot be sent, queue this one behind them
+    const pending = { url, label: outboxLabel };
+    if (await outbox.hasPending(pending)) {
+        await outbox.replay();
+        if (await outbox.hasPending(pending)) return queue();
+    }
+
+    const result = await safeFetch<T>(url, { ...fetchOptions, method, headers, body });
+    if (result.isErr() && outbox.shouldQueue(result.error)) {
+        return queue();
+    }
+    return result;
+}
+
 /**
  * Type-safe POST wrapper that reuses safeFetch
  * Automatically sets Content-Type to application/json
@@ -71,17 +634,9 @@ export async function safeFetch<T>(
 export async function safePost<T, B = unknown>(
     url: string,
     body: B,
-    options?: Omit<RequestInit, "method" | "body">
+    options?: Omit<MutationOptions<T>, "method" | "body">
 ): Promise<Result<T, FetchError>> {
-    return safeFetch<T>(url, {
-        ...options,
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            ...options?.headers,
-        },
-        body: JSON.stringify(body),
-    });
+    return safeMutation<T>(url, "POST", JSON.stringify(body), options);
 }
 
 /**
@@ -90,17 +645,9 @@ export async function safePost<T, B = unknown>(
 export async function safePut<T, B = unknown>(
     url: string,
     body: B,
-    options?: Omit<RequestInit, "method" | "body">
+    options?: Omit<MutationOptions<T>, "method" | "body">
 ): Promise<Result<T, FetchError>> {
-    return safeFetch<T>(url, {
-        ...options,
-        method: "PUT",
-        headers: {
-            "Content-Type": "application/json",
-            ...options?.headers,
-        },
-        body: JSON.stringify(body),
-    });
+    return safeMutation<T>(url, "PUT", JSON.stringify(body), options);
 }
 
 /**
@@ -109,17 +656,9 @@ export async function safePut<T, B = unknown>(
 export async function safePatch<T, B = unknown>(
     url: string,
     body: B,
-    options?: Omit<RequestInit, "method" | "body">
+    options?: Omit<MutationOptions<T>, "method" | "body">
 ): Promise<Result<T, FetchError>> {
-    return safeFetch<T>(url, {
-        ...options,
-        method: "PATCH",
-        headers: {
-            "Content-Type": "application/json",
-            ...options?.headers,
-        },
-        body: JSON.stringify(body),
-    });
+    return safeMutation<T>(url, "PATCH", JSON.stringify(body), options);
 }
 
 /**
@@ -127,84 +666,159 @@ export async function safePatch<T, B = unknown>(
  */
 export async function safeDelete<T>(
     url: string,
-    options?: Omit<RequestInit, "method">
+    options?: Omit<MutationOptions<T>, "method">
 ): Promise<Result<T, FetchError>> {
-    return safeFetch<T>(url, {
-        ...options,
-        method: "DELETE",
-    });
+    return safeMutation<T>(url, "DELETE", undefined, options);
 }
 
 /**
  * Type-safe file upload wrapper using multipart/form-data
  * Reuses safeFetch - does NOT set Content-Type (browser auto-sets with boundary)
+ * Extra headers (e.g. auth) are allowed but must not include Content-Type
+ * `timeout` defaults to 0: the deadline also covers sending the body
  */
 export async function safePostUpload<T>(
     url: string,
     formData: FormData,
-    options?: Omit<RequestInit, "method" | "body" | "headers">
+    options?: Omit<FetchOptions<T>, "method" | "body">
 ): Promise<Result<T, FetchError>> {
     return safeFetch<T>(url, {
         ...options,
+        timeout: options?.timeout ?? 0,
         method: "POST",
         body: formData,
     });
 }
 
 /**
- * Download response type
+ * Download progress - `total` comes from Content-Length and is null when unknown
+ * (or when the body is compressed, since Content-Length is then the encoded size)
  */
-export interface DownloadResult {
-    blob: Blob;
+export interface DownloadProgress {
+    loaded: number;
+    total: number | null;
+}
+
+/**
+ * Options for the download wrappers
+ * `as: "stream"` returns the body as a ReadableStream instead of buffering a Blob
+ * `timeout` defaults to 0 here: the deadline also covers reading the body, so the
+ * global default would cut off any large or slow download
+ */
+export interface DownloadOptions extends RequestOptions {
+    onProgress?: (progress: DownloadProgress) => void;
+    as?: "blob" | "stream";
+}
+
+interface DownloadMetadata {
     filename: string | null;
     contentType: string | null;
+    // Bytes received for blobs; Content-Length (if any) for streams
+    size: number | null;
+    // Final URL after redirects
+    url: string;
+}
+
+/**
+ * Download response type
+ */
+export interface DownloadResult extends DownloadMetadata {
+    blob: Blob;
 }
 
 /**
- * Extract filename from Content-Disposition header
+ * Streaming download response type
+ * Errors while reading the stream surface from the stream itself
  */
-function extractFilename(contentDisposition: string | null): string | null {
-    if (!contentDisposition) return null;
+export interface StreamDownloadResult extends DownloadMetadata {
+    stream: ReadableStream<Uint8Array>;
+}
 
-    const filenameMatch = contentDisposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
-    if (filenameMatch && filenameMatch[1]) {
-        return filenameMatch[1].replace(/['"]/g, "");
-    }
-    return null;
+/**
+ * Wrap a response body so every chunk reports progress
+ */
+function trackProgress(
+    response: Response,
+    onProgress: ((progress: DownloadProgress) => void) | undefined
+): ReadableStream<Uint8Array> {
+    const body = response.body ?? new Blob().stream();
+    if (!onProgress) return body;
+
+    const total = parseContentLength(response.headers.get("Content-Length"));
+    let loaded = 0;
+    onProgress({ loaded, total });
+
+    return body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                loaded += chunk.byteLength;
+                onProgress({ loaded, total });
+                controller.enqueue(chunk);
+            },
+        })
+    );
 }
 
 /**
- * Convert Response to DownloadResult
+ * Convert Response to DownloadResult (or StreamDownloadResult)
  */
-async function responseToDownloadResult(response: Response): Promise<DownloadResult> {
-    const blob = await response.blob();
-    const contentDisposition = response.headers.get("Content-Disposition");
+async function responseToDownloadResult(
+    response: Response,
+    requestUrl: string,
+    options: DownloadOptions | undefined
+): Promise<DownloadResult | StreamDownloadResult> {
     const contentType = response.headers.get("Content-Type");
-
-    return {
-        blob,
-        filename: extractFilename(contentDisposition),
+    const metadata = {
+        filename: parseContentDisposition(response.headers.get("Content-Disposition")),
         contentType,
+        url: response.url || requestUrl,
     };
+    const stream = trackProgress(response, options?.onProgress);
+
+    if (options?.as === "stream") {
+        return {
+            ...metadata,
+            stream,
+            size: parseContentLength(response.headers.get("Content-Length")),
+        };
+    }
+
+    const blob = await new Response(stream, {
+        headers: contentType ? { "Content-Type": contentType } : undefined,
+    }).blob();
+
+    return { ...metadata, blob, size: blob.size };
 }
 
 /**
  * Type-safe file download wrapper (GET)
- * Reuses safeRequest and returns Blob with filename
+ * Reuses safeRequest and returns Blob (or stream) with filename
  */
 export async function safeDownload(
     url: string,
-    options?: RequestInit
-): Promise<Result<DownloadResult, FetchError>> {
-    const responseResult = await safeRequest(url, options);
+    options: DownloadOptions & { as: "stream" }
+): Promise<Result<StreamDownloadResult, FetchError>>;
+export async function safeDownload(
+    url: string,
+    options?: DownloadOptions & { as?: "blob" }
+): Promise<Result<DownloadResult, FetchError>>;
+export async function safeDownload(
+    url: string,
+    options?: DownloadOptions
+): Promise<Result<DownloadResult | StreamDownloadResult, FetchError>> {
+    const { onProgress: _onProgress, as: _as, ...requestOptions } = options ?? {};
+    const sendOptions = { ...requestOptions, timeout: requestOptions.timeout ?? 0 };
+    const responseResult = await safeRequest(url, sendOptions);
 
     if (responseResult.isErr()) {
         return Result.err(responseResult.error);
     }
 
+    const response = responseResult.value;
     return Result.tryPromise({
-        try: async () => responseToDownloadResult(responseResult.value),
-        catch: (error) => new NetworkError({ url, cause: error }),
+        try: async () => responseToDownloadResult(response, url, options),
+        // Report the deadline actually applied, not the global default
+        catch: (error) => toFetchError(error, url, sendOptions, responseAttempts.get(response)),
     });
 }
 
@@ -215,24 +829,35 @@ export async function safeDownload(
 export async function safePostDownload<B = unknown>(
     url: string,
     body: B,
-    options?: Omit<RequestInit, "method" | "body">
-): Promise<Result<DownloadResult, FetchError>> {
-    const responseResult = await safeRequest(url, {
-        ...options,
+    options: Omit<DownloadOptions, "method" | "body"> & { as: "stream" }
+): Promise<Result<StreamDownloadResult, FetchError>>;
+export async function safePostDownload<B = unknown>(
+    url: string,
+    body: B,
+    options?: Omit<DownloadOptions, "method" | "body"> & { as?: "blob" }
+): Promise<Result<DownloadResult, FetchError>>;
+export async function safePostDownload<B = unknown>(
+    url: string,
+    body: B,
+    options?: Omit<DownloadOptions, "method" | "body">
+): Promise<Result<DownloadResult | StreamDownloadResult, FetchError>> {
+    const { onProgress: _onProgress, as: _as, ...requestOptions } = options ?? {};
+    const sendOptions = {
+        ...requestOptions,
+        timeout: requestOptions.timeout ?? 0,
         method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            ...options?.headers,
-        },
+        headers: mergeHeaders({ "Content-Type": "application/json" }, options?.headers),
         body: JSON.stringify(body),
-    });
+    };
+    const responseResult = await safeRequest(url, sendOptions);
 
     if (responseResult.isErr()) {
         return Result.err(responseResult.error);
     }
 
+    const response = responseResult.value;
     return Result.tryPromise({
-        try: async () => responseToDownloadResult(responseResult.value),
-        catch: (error) => new NetworkError({ url, cause: error }),
+        try: async () => responseToDownloadResult(response, url, options),
+        catch: (error) => toFetchError(error, url, sendOptions, responseAttempts.get(response)),
     });
 }
@@ -0,0 +1,177 @@
+/**
+ * Per-host circuit breaker for the api layer
+ *
+ * - closed: requests flow; consecutive failures are counted
+ * - open: after `failureThreshold` failures requests fail fast with CircuitOpenError
+ * - half-open: once `cooldownMs` has passed a single trial request is let through;
+ *   success closes the circuit, failure opens it again (failures while open are ignored)
+ *
+ * Only upstream-health failures count: NetworkError, TimeoutError and 5xx ApiErrors.
+ * State is observable through subscribe()/getSnapshot() (see useCircuitBreaker).
+ */
+import { Result } from "better-result";
+import { ApiError, type FetchError } from "./errors";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitSnapshot {
+    host: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number | null;
+    // When an open circuit will let a trial request through
+    retryAt: number | null;
+}
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number;
+    cooldownMs: number;
+}
+
+interface CircuitEntry extends CircuitSnapshot {
+    trialInFlight: boolean;
+}
+
+const CLOSED: Omit<CircuitSnapshot, "host"> = {
+    state: "closed",
+    consecutiveFailures: 0,
+    openedAt: null,
+    retryAt: null,
+};
+
+/**
+ * Whether a failure says something about the upstream's health
+ */
+export function isUpstreamFailure(error: FetchError): boolean {
+    if (error instanceof ApiError) return error.status >= 500;
+    return error._tag === "NetworkError" || error._tag === "TimeoutError";
+}
+
+/**
+ * Host key for a URL, or null for URLs without one (relative paths)
+ */
+export function hostOf(url: string): string | null {
+    return Result.try(() => new URL(url).host).unwrapOr(null);
+}
+
+export class CircuitBreaker {
+    private readonly circuits = new Map<string, CircuitEntry>();
+    private readonly closedSnapshots = new Map<string, CircuitSnapshot>();
+    private readonly listeners = new Set<() => void>();
+
+    constructor(
+        private readonly options: CircuitBreakerOptions = {
+            failureThreshold: 5,
+            cooldownMs: 30 * 1000,
+        }
+    ) {}
+
+    /**
+     * Ask to send a request to the host
+     * Returns null when allowed, otherwise the open circuit's snapshot
+     */
+    acquire(host: string, now = Date.now()): CircuitSnapshot | null {
+        const circuit = this.circuits.get(host);
+        if (!circuit || circuit.state === "closed") return null;
+
+        if (circuit.state === "open" && circuit.retryAt !== null && now >= circuit.retryAt) {
+            this.update(host, { state: "half-open", trialInFlight: true });
+            return null;
+        }
+        if (circuit.state === "half-open" && !circuit.trialInFlight) {
+            this.update(host, { trialInFlight: true });
+            return null;
+        }
+        return this.getSnapshot(host);
+    }
+
+    recordSuccess(host: string): void {
+        const circuit = this.circuits.get(host);
+        if (!circuit || (circuit.state === "closed" && circuit.consecutiveFailures === 0)) return;
+        this.update(host, { ...CLOSED, trialInFlight: false });
+    }
+
+    recordFailure(host: string, now = Date.now()): void {
+        const circuit = this.circuits.get(host);
+        // Late failures of requests sent before it opened must not extend the cooldown;
+        // only a failed half-open trial re-opens the circuit
+        if (circuit?.state === "open") return;
+
+        const consecutiveFailures = (circuit?.consecutiveFailures ?? 0) + 1;
+        const shouldOpen =
+            circuit?.state === "half-open" || consecutiveFailures >= this.options.failureThreshold;
+
+        this.update(
+            host,
+            shouldOpen
+                ? {
+                      state: "open",
+                      consecutiveFailures,
+                      openedAt: now,
+                      retryAt: now + this.options.cooldownMs,
+                      trialInFlight: false,
+                  }
+                : { consecutiveFailures }
+        );
+    }
+
+    /**
+     * Record the outcome of a request to the host
+     */
+    record(host: string, error: FetchError | null): void {
+        if (error && isUpstreamFailure(error)) {
+            this.recordFailure(host);
+        } else if (error?._tag === "AbortedError") {
+            // Cancelled by the caller: says nothing about the host, just free the trial slot
+            if (this.circuits.get(host)?.trialInFlight) this.update(host, { trialInFlight: false });
+        } else {
+            // Success, or the host answered (e.g. 4xx) - either way it is up
+            this.recordSuccess(host);
+        }
+    }
+
+    /**
+     * Stable snapshot for the host (same object until its state changes)
+     */
+    getSnapshot(host: string): CircuitSnapshot {
+        return this.circuits.get(host) ?? this.closedSnapshot(host);
+    }
+
+    snapshots(): CircuitSnapshot[] {
+        return [...this.circuits.values()];
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    reset(host?: string): void {
+        if (host) {
+            this.circuits.delete(host);
+        } else {
+            this.circuits.clear();
+        }
+        this.listeners.forEach((listener) => listener());
+    }
+
+    private closedSnapshot(host: string): CircuitSnapshot {
+        let snapshot = this.closedSnapshots.get(host);
+        if (!snapshot) {
+            snapshot = { host, ...CLOSED };
+            this.closedSnapshots.set(host, snapshot);
+        }
+        return snapshot;
+    }
+
+    private update(host: string, changes: Partial<CircuitEntry>): void {
+        const current = this.circuits.get(host) ?? { host, ...CLOSED, trialInFlight: false };
+        this.circuits.set(host, { ...current, ...changes });
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+/**
+ * Breaker shared by every request unless a call opts out
+ */
+export const circuitBreaker = new CircuitBreaker();
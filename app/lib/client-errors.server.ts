@@ -0,0 +1,34 @@
+/**
+ * Server-only writer for client error reports
+ * Appends one JSON line per report to logs/client-errors.log
+ */
+import { appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { ClientErrorReport } from "./error-reporter";
+
+const LOG_DIR = join(process.cwd(), "logs");
+const LOG_FILE = join(LOG_DIR, "client-errors.log");
+
+// Keep a runaway message or stack from bloating the log
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_STACK_LENGTH = 8000;
+
+/**
+ * Append reports to the log, stamped with when and from where they arrived
+ */
+export async function appendClientErrors(
+    reports: readonly ClientErrorReport[],
+    meta: { receivedAt: string; ip: string | null }
+): Promise<void> {
+    const lines = reports.map((report) =>
+        JSON.stringify({
+            ...meta,
+            ...report,
+            message: report.message.slice(0, MAX_MESSAGE_LENGTH),
+            stack: report.stack?.slice(0, MAX_STACK_LENGTH),
+        })
+    );
+
+    await mkdir(LOG_DIR, { recursive: true });
+    await appendFile(LOG_FILE, `${lines.join("\n")}\n`);
+}
@@ -0,0 +1,17 @@
+/**
+ * Runtime configuration read from Vite env variables
+ * Set these in `.env` (or the shell) to point services at staging or a local stand-in
+ */
+
+export const apiConfig = {
+    userApiUrl: import.meta.env.VITE_USER_API_URL ?? "https://jsonplaceholder.typicode.com",
+    bitcoinApiUrl: import.meta.env.VITE_BITCOIN_API_URL ?? "https://blockchain.info",
+    goldApiUrl: import.meta.env.VITE_GOLD_API_URL ?? "https://api.chnwt.dev/thai-gold-api",
+    // "record" saves real responses to fixtures/http/, "replay" serves them offline
+    fixtures: import.meta.env.VITE_API_FIXTURES,
+};
+
+export const buildConfig = {
+    // Unique per build (set in vite.config.ts); persisted query caches from other builds are discarded
+    id: import.meta.env.VITE_BUILD_ID ?? "dev",
+};
@@ -0,0 +1,99 @@
+/**
+ * Classification of FetchError variants
+ * Tells retry logic, error UIs and reporting what kind of failure they are dealing with
+ *
+ * - retryable: another attempt of the same request may succeed
+ * - transient: the condition is expected to clear by itself (blip, overload, open circuit)
+ * - userActionable: the user can do something about it (fix input, sign in, reconnect)
+ * - severity: how loudly to surface it
+ * - retryAfterMs: how long the server (or circuit breaker) asked us to wait
+ */
+import { matchError } from "better-result";
+import type { ApiError, FetchError } from "./errors";
+import { DEFAULT_RETRY_POLICY } from "./retry";
+
+export type ErrorSeverity = "info" | "warning" | "error";
+
+export interface ErrorClassification {
+    retryable: boolean;
+    transient: boolean;
+    userActionable: boolean;
+    severity: ErrorSeverity;
+    retryAfterMs: number | undefined;
+}
+
+// Client errors the user can resolve: bad input, missing auth, conflicting edits
+const USER_ACTIONABLE_STATUSES = [400, 401, 403, 409, 413, 422];
+
+function classifyApiError(error: ApiError): ErrorClassification {
+    // Same statuses the api layer's own retry policy treats as worth another attempt
+    const retryable = DEFAULT_RETRY_POLICY.retryStatuses.includes(error.status);
+    return {
+        retryable,
+        transient: retryable,
+        userActionable: USER_ACTIONABLE_STATUSES.includes(error.status),
+        severity: error.status >= 500 && !retryable ? "error" : "warning",
+        retryAfterMs: error.retryAfterMs,
+    };
+}
+
+/**
+ * Classify a fetch error - every variant must be handled, so new tags fail to compile here
+ */
+export function classifyError(error: FetchError, now = Date.now()): ErrorClassification {
+    return matchError(error, {
+        ApiError: classifyApiError,
+        NetworkError: () => ({
+            retryable: true,
+            transient: true,
+            userActionable: true,
+            severity: "warning",
+            retryAfterMs: undefined,
+        }),
+        TimeoutError: () => ({
+            retryable: true,
+            transient: true,
+            userActionable: false,
+            severity: "warning",
+            retryAfterMs: undefined,
+        }),
+        CircuitOpenError: (e) => ({
+            retryable: true,
+            transient: true,
+            userActionable: false,
+            severity: "warning",
+            retryAfterMs: e.retryAt === null ? undefined : Math.max(0, e.retryAt - now),
+        }),
+        // The response will not parse or validate any better next time
+        ParseError: () => ({
+            retryable: false,
+            transient: false,
+            userActionable: false,
+            severity: "error",
+            retryAfterMs: undefined,
+        }),
+        ValidationError: () => ({
+            retryable: false,
+            transient: false,
+            userActionable: false,
+            severity: "error",
+            retryAfterMs: undefined,
+        }),
+        // Cancelled on purpose
+        AbortedError: () => ({
+            retryable: false,
+            transient: false,
+            userActionable: false,
+            severity: "info",
+            retryAfterMs: undefined,
+        }),
+        // Already stored in the outbox, which replays it
+        QueuedError: () => ({
+            retryable: false,
+            transient: true,
+            userActionable: false,
+            severity: "info",
+            retryAfterMs: undefined,
+        }),
+    });
+}
@@ -0,0 +1,156 @@
+/**
+ * Client error reporter
+ *
+ * Collects errors from the root ErrorBoundary and the query layer, batches them
+ * and sends them to the /api/client-errors route with navigator.sendBeacon
+ * (falling back to a keepalive fetch), which writes them to a local log file.
+ *
+ * Batches are flushed when full, after a short delay, and when the page is hidden.
+ * Informational failures (aborted or queued requests) are not reported.
+ */
+import { Result } from "better-result";
+import { classifyError } from "./error-classification";
+import { isFetchError } from "./errors";
+import { s, type Infer } from "./schema";
+
+export const CLIENT_ERRORS_PATH = "/api/client-errors";
+
+const clientErrorReportSchema = s.object({
+    // FetchError tag, or the Error's name for anything else
+    tag: s.string(),
+    message: s.string(),
+    route: s.string(),
+    userAgent: s.string(),
+    stack: s.optional(s.string()),
+    // Where the error was caught: "boundary", "query" or "mutation"
+    source: s.string(),
+    severity: s.string(),
+    occurredAt: s.string(),
+});
+
+export const clientErrorBatchSchema = s.object({
+    reports: s.array(clientErrorReportSchema),
+});
+
+export type ClientErrorReport = Infer<typeof clientErrorReportSchema>;
+
+export type ClientErrorBatch = Infer<typeof clientErrorBatchSchema>;
+
+export interface ErrorReporterOptions {
+    endpoint: string;
+    // Reports per request; a full batch is sent right away
+    maxBatchSize: number;
+    flushDelayMs: number;
+    // Reports beyond this while a batch is pending are dropped
+    maxQueueSize: number;
+}
+
+/**
+ * Turn anything thrown into a report
+ */
+export function toClientErrorReport(
+    error: unknown,
+    source: string,
+    now = new Date()
+): ClientErrorReport {
+    const isError = error instanceof Error;
+    return {
+        tag: isFetchError(error) ? error._tag : isError ? error.name : typeof error,
+        message: isError ? error.message : String(error),
+        route: typeof location === "undefined" ? "" : location.pathname + location.search,
+        userAgent: typeof navigator === "undefined" ? "" : navigator.userAgent,
+        stack: isError ? error.stack : undefined,
+        source,
+        severity: isFetchError(error) ? classifyError(error).severity : "error",
+        occurredAt: now.toISOString(),
+    };
+}
+
+export class ErrorReporter {
+    private queue: ClientErrorReport[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(
+        private readonly options: ErrorReporterOptions = {
+            endpoint: CLIENT_ERRORS_PATH,
+            maxBatchSize: 10,
+            flushDelayMs: 5 * 1000,
+            maxQueueSize: 50,
+        }
+    ) {}
+
+    /**
+     * Queue an error for reporting (no-op during SSR)
+     */
+    report(error: unknown, source: string): void {
+        if (typeof window === "undefined") return;
+
+        const report = toClientErrorReport(error, source);
+        if (report.severity === "info" || this.queue.length >= this.options.maxQueueSize) {
+            return;
+        }
+
+        this.queue.push(report);
+        if (this.queue.length >= this.options.maxBatchSize) {
+            this.flush();
+        } else {
+            this.timer ??= setTimeout(() => this.flush(), this.options.flushDelayMs);
+        }
+    }
+
+    /**
+     * Send everything queued, in batches of maxBatchSize
+     */
+    flush(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        while (this.queue.length > 0) {
+            const batch: ClientErrorBatch = {
+                reports: this.queue.splice(0, this.options.maxBatchSize),
+            };
+            this.send(JSON.stringify(batch));
+        }
+    }
+
+    /**
+     * Flush whenever the page is hidden or unloaded
+     * Returns a cleanup function
+     */
+    start(): () => void {
+        if (typeof window === "undefined") return () => undefined;
+
+        const onHidden = () => {
+            if (document.visibilityState === "hidden") this.flush();
+        };
+        const onPageHide = () => this.flush();
+        document.addEventListener("visibilitychange", onHidden);
+        window.addEventListener("pagehide", onPageHide);
+        return () => {
+            document.removeEventListener("visibilitychange", onHidden);
+            window.removeEventListener("pagehide", onPageHide);
+        };
+    }
+
+    private send(body: string): void {
+        const blob = new Blob([body], { type: "application/json" });
+        if (navigator.sendBeacon?.(this.options.endpoint, blob)) return;
+
+        // Beacon unavailable or refused (payload too large): best-effort keepalive request
+        void Result.tryPromise(() =>
+            fetch(this.options.endpoint, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body,
+                keepalive: true,
+            })
+        );
+    }
+}
+
+/**
+ * Reporter shared by the ErrorBoundary and the QueryClient caches
+ */
+export const errorReporter = new ErrorReporter();
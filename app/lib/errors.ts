@@ -1,22 +1,55 @@
 /**
  * Custom TaggedError classes for domain-specific error handling
  * Following better-result adoption patterns
+ *
+ * Every FetchError carries `attempts`: the tries safeRequest made under the retry
+ * policy, including the first (1 when the error did not come from a request)
  */
-import { TaggedError } from "better-result";
+import { isTaggedError, TaggedError } from "better-result";
+import type { ProblemDetails } from "./problem-details";
+
+/**
+ * Message suffix for errors that only surfaced after retries
+ */
+function attemptsSuffix(attempts: number): string {
+    return attempts > 1 ? ` after ${attempts} attempts` : "";
+}
 
 /**
  * Error thrown when an API request fails
+ * `body` is the (size-capped) response body - parsed JSON when possible, else text
+ * `problem` is set for `application/problem+json` responses
  */
 export class ApiError extends TaggedError("ApiError")<{
     status: number;
     statusText: string;
     url: string;
+    attempts: number;
+    retryAfterMs: number | undefined;
+    body: unknown;
+    problem: ProblemDetails | undefined;
     message: string;
 }>() {
-    constructor(args: { status: number; statusText: string; url: string }) {
+    constructor(args: {
+        status: number;
+        statusText: string;
+        url: string;
+        attempts?: number;
+        retryAfterMs?: number;
+        body?: unknown;
+        problem?: ProblemDetails;
+    }) {
+        const attempts = args.attempts ?? 1;
+        const detail = args.problem?.detail ?? args.problem?.title;
         super({
             ...args,
-            message: `API request failed: ${args.status} ${args.statusText} (${args.url})`,
+            attempts,
+            retryAfterMs: args.retryAfterMs,
+            body: args.body,
+            problem: args.problem,
+            message: `API request failed: ${args.status} ${args.statusText} (${args.url})${attemptsSuffix(attempts)}${
+                detail ? ` - ${detail}` : ""
+            }`,
         });
     }
 }
@@ -27,14 +60,17 @@ export class ApiError extends TaggedError("ApiError")<{
 export class NetworkError extends TaggedError("NetworkError")<{
     url: string;
     cause: unknown;
+    attempts: number;
     message: string;
 }>() {
-    constructor(args: { url: string; cause: unknown }) {
+    constructor(args: { url: string; cause: unknown; attempts?: number }) {
+        const attempts = args.attempts ?? 1;
         const errorMessage =
             args.cause instanceof Error ? args.cause.message : String(args.cause);
         super({
             ...args,
-            message: `Network error fetching ${args.url}: ${errorMessage}`,
+            attempts,
+            message: `Network error fetching ${args.url}${attemptsSuffix(attempts)}: ${errorMessage}`,
         });
     }
 }
@@ -44,19 +80,149 @@ export class NetworkError extends TaggedError("NetworkError")<{
  */
 export class ParseError extends TaggedError("ParseError")<{
     cause: unknown;
+    attempts: number;
     message: string;
 }>() {
-    constructor(args: { cause: unknown }) {
+    constructor(args: { cause: unknown; attempts?: number }) {
         const errorMessage =
             args.cause instanceof Error ? args.cause.message : String(args.cause);
         super({
             ...args,
+            attempts: args.attempts ?? 1,
             message: `Failed to parse response: ${errorMessage}`,
         });
     }
 }
 
+/**
+ * Error thrown when a response does not match its declared schema
+ * `path` points at the failing field, e.g. `response.price.gold_bar.buy`
+ */
+export class ValidationError extends TaggedError("ValidationError")<{
+    path: string;
+    expected: string;
+    received: string;
+    attempts: number;
+    message: string;
+}>() {
+    constructor(args: { path: string; expected: string; received: string; attempts?: number }) {
+        super({
+            ...args,
+            attempts: args.attempts ?? 1,
+            message: `Invalid response at ${args.path}: expected ${args.expected}, received ${args.received}`,
+        });
+    }
+}
+
+/**
+ * Error thrown when a request exceeds its timeout
+ */
+export class TimeoutError extends TaggedError("TimeoutError")<{
+    url: string;
+    timeoutMs: number;
+    attempts: number;
+    message: string;
+}>() {
+    constructor(args: { url: string; timeoutMs: number; attempts?: number }) {
+        const attempts = args.attempts ?? 1;
+        super({
+            ...args,
+            attempts,
+            message: `Request timed out after ${args.timeoutMs}ms (${args.url})${attemptsSuffix(attempts)}`,
+        });
+    }
+}
+
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export class AbortedError extends TaggedError("AbortedError")<{
+    url: string;
+    reason: unknown;
+    attempts: number;
+    message: string;
+}>() {
+    constructor(args: { url: string; reason: unknown; attempts?: number }) {
+        const reasonMessage =
+            args.reason instanceof Error ? args.reason.message : String(args.reason ?? "aborted");
+        super({
+            ...args,
+            attempts: args.attempts ?? 1,
+            message: `Request was aborted (${args.url}): ${reasonMessage}`,
+        });
+    }
+}
+
+/**
+ * Error returned without sending a request while a host's circuit breaker is open
+ */
+export class CircuitOpenError extends TaggedError("CircuitOpenError")<{
+    host: string;
+    url: string;
+    retryAt: number | null;
+    attempts: number;
+    message: string;
+}>() {
+    constructor(args: { host: string; url: string; retryAt: number | null; attempts?: number }) {
+        super({
+            ...args,
+            attempts: args.attempts ?? 1,
+            message: `Upstream ${args.host} is unavailable (circuit open), not requesting ${args.url}`,
+        });
+    }
+}
+
+/**
+ * Error returned when a mutation could not be sent and was stored in the outbox
+ * It will be replayed when connectivity returns - `id` identifies the outbox item
+ */
+export class QueuedError extends TaggedError("QueuedError")<{
+    id: string;
+    method: string;
+    url: string;
+    attempts: number;
+    message: string;
+}>() {
+    constructor(args: { id: string; method: string; url: string; attempts?: number }) {
+        super({
+            ...args,
+            attempts: args.attempts ?? 1,
+            message: `${args.method} ${args.url} was queued and will be sent when back online`,
+        });
+    }
+}
+
 /**
  * Union type for all fetch-related errors
  */
-export type FetchError = ApiError | NetworkError | ParseError;
+export type FetchError =
+    | ApiError
+    | NetworkError
+    | ParseError
+    | ValidationError
+    | TimeoutError
+    | AbortedError
+    | CircuitOpenError
+    | QueuedError;
+
+/**
+ * Every FetchError tag - typed as a Record so adding a variant to the union
+ * fails to compile until it is listed here
+ */
+const FETCH_ERROR_TAGS: Record<FetchError["_tag"], true> = {
+    ApiError: true,
+    NetworkError: true,
+    ParseError: true,
+    ValidationError: true,
+    TimeoutError: true,
+    AbortedError: true,
+    CircuitOpenError: true,
+    QueuedError: true,
+};
+
+/**
+ * Type guard for any FetchError variant
+ */
+export function isFetchError(value: unknown): value is FetchError {
+    return isTaggedError(value) && value._tag in FETCH_ERROR_TAGS;
+}
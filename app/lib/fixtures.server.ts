@@ -0,0 +1,20 @@
+/**
+ * Server-only fixture writer used by the dev recorder route
+ */
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fixtureFileName, type HttpFixture } from "./fixtures";
+
+// Matches the import.meta.glob pattern in ./fixtures
+const FIXTURE_DIR = join(process.cwd(), "fixtures", "http");
+
+/**
+ * Write a fixture to fixtures/http/, replacing an earlier recording of the same request
+ * Returns the file name
+ */
+export async function saveFixture(fixture: HttpFixture): Promise<string> {
+    const fileName = fixtureFileName(fixture.method, fixture.url);
+    await mkdir(FIXTURE_DIR, { recursive: true });
+    await writeFile(join(FIXTURE_DIR, fileName), `${JSON.stringify(fixture, null, 4)}\n`);
+    return fileName;
+}
@@ -0,0 +1,197 @@
+/**
+ * Record/replay HTTP fixtures for the api layer
+ *
+ * - record: requests go to the network and every response (status, headers, body
+ *   and latency) is saved under fixtures/http/ through the dev-only recorder route
+ * - replay: requests never leave the process; they are answered from fixtures/http/
+ *   after the recorded latency, and fail with NetworkError when nothing matches
+ *
+ * Selected with VITE_API_FIXTURES=record|replay (see apiConfig.fixtures).
+ * Fixtures are matched by method and URL, one file per request.
+ * Recording happens in the browser; requests made during SSR pass through unrecorded.
+ */
+import { Result } from "better-result";
+import { getApiDefaults, setApiDefaults } from "./api";
+import { sleep } from "./retry";
+import { s, type Schema } from "./schema";
+
+export type FixtureMode = "record" | "replay";
+
+export interface HttpFixture {
+    method: string;
+    url: string;
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    // Parsed JSON for JSON responses (readable diffs), raw text otherwise
+    body?: unknown;
+    latencyMs: number;
+    recordedAt: string;
+}
+
+/**
+ * Shape of a fixture posted to the recorder route
+ */
+export const httpFixtureSchema: Schema<HttpFixture> = s.object({
+    method: s.string({ pattern: /^[A-Z]+$/ }),
+    url: s.string(),
+    status: s.number(),
+    statusText: s.string(),
+    headers: s.record(s.string()),
+    body: s.unknown(),
+    latencyMs: s.number(),
+    recordedAt: s.string(),
+});
+
+// Dev-only resource route that writes recorded fixtures to disk (routes/dev.fixtures.ts)
+export const FIXTURE_RECORDER_PATH = "/__fixtures";
+
+// Response headers the api layer reads; everything else is noise in a fixture
+const RECORDED_HEADERS = [
+    "content-type",
+    "content-disposition",
+    "etag",
+    "last-modified",
+    "retry-after",
+    "link",
+    "x-total-count",
+];
+
+// Statuses whose responses must not carry a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// Loaded on demand, so fixture files stay out of the main bundle
+const fixtureFiles = import.meta.glob<HttpFixture>("/fixtures/http/*.json", {
+    import: "default",
+});
+
+// The real transport, captured before any fixture transport is installed
+const networkTransport = getApiDefaults().fetch;
+
+/**
+ * File name of the fixture for a request, e.g. "get-blockchain.info-ticker.json"
+ */
+export function fixtureFileName(method: string, url: string): string {
+    const { host, pathname, search } = new URL(url, "http://localhost");
+    const slug = `${method}-${host}${pathname}${search}`
+        .toLowerCase()
+        .replace(/[^a-z0-9.]+/g, "-")
+        .replace(/-+$/, "");
+    return `${slug}.json`;
+}
+
+/**
+ * Method and URL of a fetch call, whichever form it was made in
+ */
+function describeRequest(
+    input: RequestInfo | URL,
+    init: RequestInit | undefined
+): { method: string; url: string } {
+    const request = input instanceof Request ? input : null;
+    return {
+        method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+        url: request?.url ?? String(input),
+    };
+}
+
+function toResponse(fixture: HttpFixture): Response {
+    const body =
+        NULL_BODY_STATUSES.has(fixture.status) || fixture.body === undefined
+            ? null
+            : typeof fixture.body === "string"
+              ? fixture.body
+              : JSON.stringify(fixture.body);
+
+    return new Response(body, {
+        status: fixture.status,
+        statusText: fixture.statusText,
+        headers: fixture.headers,
+    });
+}
+
+async function toFixture(
+    response: Response,
+    method: string,
+    url: string,
+    latencyMs: number
+): Promise<HttpFixture> {
+    const text = await response.text();
+    const isJson = /[/+]json\b/i.test(response.headers.get("Content-Type") ?? "");
+
+    return {
+        method,
+        url,
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+            [...response.headers.entries()].filter(([name]) => RECORDED_HEADERS.includes(name))
+        ),
+        body: isJson && text !== "" ? Result.try(() => JSON.parse(text)).unwrapOr(text) : text,
+        latencyMs,
+        recordedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Transport answering every request from fixtures/http/
+ * A missing fixture rejects like an unreachable host (NetworkError)
+ */
+export function createReplayTransport(): typeof fetch {
+    return async (input, init) => {
+        const { method, url } = describeRequest(input, init);
+        const load = fixtureFiles[`/fixtures/http/${fixtureFileName(method, url)}`];
+        if (!load) {
+            throw new TypeError(`No recorded fixture for ${method} ${url}`);
+        }
+
+        const fixture = await load();
+        // Rejects with the signal's reason, so timeouts and aborts behave as on the network
+        await sleep(fixture.latencyMs, init?.signal);
+        return toResponse(fixture);
+    };
+}
+
+/**
+ * Transport that forwards to `transport` and hands a fixture of each response to `save`
+ * Saving happens in the background and never affects the response
+ */
+export function createRecordingTransport(
+    transport: typeof fetch,
+    save: (fixture: HttpFixture) => Promise<unknown>
+): typeof fetch {
+    return async (input, init) => {
+        const { method, url } = describeRequest(input, init);
+        const startedAt = performance.now();
+        const response = await transport(input, init);
+        const latencyMs = Math.round(performance.now() - startedAt);
+
+        const copy = response.clone();
+        void Result.tryPromise(async () => save(await toFixture(copy, method, url, latencyMs)));
+        return response;
+    };
+}
+
+/**
+ * Send a recorded fixture to the dev recorder route
+ */
+function postFixture(fixture: HttpFixture): Promise<Response> {
+    return fetch(FIXTURE_RECORDER_PATH, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(fixture),
+    });
+}
+
+/**
+ * Install the transport for the given fixture mode (undefined restores the network)
+ * Safe to call more than once - transports always wrap the real network one
+ */
+export function configureFixtures(mode: FixtureMode | undefined): void {
+    if (mode === "replay") {
+        setApiDefaults({ fetch: createReplayTransport() });
+    } else if (mode === "record" && typeof window !== "undefined") {
+        setApiDefaults({ fetch: createRecordingTransport(networkTransport, postFixture) });
+    } else {
+        setApiDefaults({ fetch: networkTransport });
+    }
+}
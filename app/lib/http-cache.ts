@@ -0,0 +1,110 @@
+/**
+ * HTTP validator cache for conditional requests
+ * Remembers ETag / Last-Modified with the parsed body per URL so safeFetch
+ * can send If-None-Match / If-Modified-Since and turn a 304 into the cached value
+ *
+ * Plain in-memory LRU, so it works the same in the browser and during SSR.
+ * On the server the shared instance is process-wide: only use it for public,
+ * non-personalised responses, or pass a per-request instance instead.
+ */
+
+export interface ValidatorCacheEntry<T = unknown> {
+    url: string;
+    etag: string | null;
+    lastModified: string | null;
+    value: T;
+    storedAt: number;
+}
+
+export interface ValidatorCacheStats {
+    hits: number;
+    misses: number;
+    stores: number;
+    evictions: number;
+}
+
+export class HttpValidatorCache {
+    private readonly entries = new Map<string, ValidatorCacheEntry>();
+    private readonly counters: ValidatorCacheStats = {
+        hits: 0,
+        misses: 0,
+        stores: 0,
+        evictions: 0,
+    };
+
+    constructor(readonly maxEntries = 100) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get stats(): Readonly<ValidatorCacheStats> {
+        return { ...this.counters };
+    }
+
+    /**
+     * Look up an entry and mark it as most recently used
+     */
+    get(url: string): ValidatorCacheEntry | undefined {
+        const entry = this.entries.get(url);
+        if (entry) {
+            this.entries.delete(url);
+            this.entries.set(url, entry);
+        }
+        return entry;
+    }
+
+    /**
+     * Store validators and the parsed value, evicting the least recently used entry when full
+     */
+    set<T>(entry: ValidatorCacheEntry<T>): void {
+        this.entries.delete(entry.url);
+        this.entries.set(entry.url, entry);
+        this.counters.stores++;
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+            this.counters.evictions++;
+        }
+    }
+
+    delete(url: string): boolean {
+        return this.entries.delete(url);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    recordHit(): void {
+        this.counters.hits++;
+    }
+
+    recordMiss(): void {
+        this.counters.misses++;
+    }
+
+    /**
+     * Entries from least to most recently used, for debugging and dev tooling
+     */
+    snapshot(): ValidatorCacheEntry[] {
+        return [...this.entries.values()];
+    }
+}
+
+/**
+ * Conditional request headers for a cached entry
+ */
+export function conditionalHeaders(entry: ValidatorCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers["If-None-Match"] = entry.etag;
+    if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+    return headers;
+}
+
+/**
+ * Shared cache used when a request opts in with `validatorCache: true`
+ */
+export const httpCache = new HttpValidatorCache();
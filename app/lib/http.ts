@@ -0,0 +1,142 @@
+/**
+ * Small HTTP helpers shared across the api layer
+ */
+import { Result } from "better-result";
+
+/**
+ * Merge header sets left to right; later values win, whatever form they come in
+ */
+export function mergeHeaders(...sources: (HeadersInit | undefined)[]): Headers {
+    const merged = new Headers();
+    for (const source of sources) {
+        new Headers(source).forEach((value, key) => merged.set(key, value));
+    }
+    return merged;
+}
+
+/**
+ * Read at most `maxBytes` of a body as text, cancelling the rest of the stream
+ */
+export async function readTextCapped(
+    response: Response,
+    maxBytes: number
+): Promise<{ text: string; truncated: boolean }> {
+    if (!response.body) return { text: "", truncated: false };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    let received = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return { text: text + decoder.decode(), truncated: false };
+
+        // A chunk that only fills the cap is kept; truncation shows on the next read
+        const remaining = maxBytes - received;
+        if (value.byteLength > remaining) {
+            text += decoder.decode(value.subarray(0, remaining));
+            await reader.cancel();
+            return { text, truncated: true };
+        }
+        received += value.byteLength;
+        text += decoder.decode(value, { stream: true });
+    }
+}
+
+/**
+ * Parse a Content-Length header, returning null when missing or invalid
+ */
+export function parseContentLength(value: string | null): number | null {
+    if (value === null) return null;
+    const length = Number(value);
+    return Number.isInteger(length) && length >= 0 ? length : null;
+}
+
+/**
+ * Decode an RFC 5987 ext-value such as `UTF-8''%E0%B8%A3%E0%B8%B2.pdf`
+ */
+function decodeExtValue(value: string): string | null {
+    const match = value.match(/^([\w!#$%&+^`{}~-]+)'[^']*'(.*)$/);
+    if (!match) return null;
+
+    const [, charset, encoded] = match;
+    if (charset.toLowerCase() === "utf-8") {
+        return Result.try(() => decodeURIComponent(encoded)).unwrapOr(null);
+    }
+    // ISO-8859-1: each %XX is one character
+    return encoded.replace(/%([0-9a-f]{2})/gi, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+    );
+}
+
+/**
+ * Header values reach us as Latin-1; servers that put raw UTF-8 bytes in a
+ * plain `filename=` (common with Thai names) need those bytes re-decoded
+ */
+function repairUtf8(value: string): string {
+    if (!/[\u0080-\u00ff]/.test(value) || /[^\u0000-\u00ff]/.test(value)) return value;
+
+    const bytes = Uint8Array.from(value, (char) => char.charCodeAt(0));
+    return Result.try(() => new TextDecoder("utf-8", { fatal: true }).decode(bytes)).unwrapOr(
+        value
+    );
+}
+
+/**
+ * Extract the filename from a Content-Disposition header
+ * Prefers RFC 5987 `filename*=` over plain `filename=`, and unquotes quoted-strings
+ */
+export function parseContentDisposition(header: string | null): string | null {
+    if (!header) return null;
+
+    const params = new Map<string, string>();
+    const paramPattern = /;\s*([^\s=;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+    for (const [, name, rawValue] of header.matchAll(paramPattern)) {
+        const value = rawValue.startsWith('"')
+            ? rawValue.slice(1, -1).replace(/\\(.)/g, "$1")
+            : rawValue.trim();
+        params.set(name.toLowerCase(), value);
+    }
+
+    const extended = params.get("filename*");
+    if (extended) {
+        const decoded = decodeExtValue(extended);
+        if (decoded) return decoded;
+    }
+
+    const plain = params.get("filename");
+    return plain ? repairUtf8(plain) : null;
+}
+
+/**
+ * Parse an RFC 8288 Link header into a map of rel -> target
+ * A link with several rels (`rel="next last"`) is listed under each; the first wins
+ */
+export function parseLinkHeader(header: string | null): Map<string, string> {
+    const links = new Map<string, string>();
+    if (!header) return links;
+
+    const linkPattern = /<([^>]*)>((?:\s*;\s*[^\s=;,]+\s*(?:=\s*(?:"(?:[^"\\]|\\.)*"|[^;,]*))?)*)/g;
+    for (const [, target, rawParams] of header.matchAll(linkPattern)) {
+        const rel = rawParams.match(/;\s*rel\s*=\s*(?:"([^"]*)"|([^;,\s]+))/i);
+        const rels = (rel?.[1] ?? rel?.[2] ?? "").toLowerCase().split(/\s+/);
+        for (const name of rels) {
+            if (name && !links.has(name)) links.set(name, target);
+        }
+    }
+    return links;
+}
+
+/**
+ * Set query parameters on a URL, replacing existing values
+ * Relative URLs stay relative
+ */
+export function withSearchParams(url: string, params: Record<string, string>): string {
+    const isAbsolute = /^[a-z][a-z\d+\-.]*:/i.test(url);
+    const parsed = new URL(url, "http://localhost");
+    for (const [name, value] of Object.entries(params)) {
+        parsed.searchParams.set(name, value);
+    }
+    return isAbsolute ? parsed.href : `${parsed.pathname}${parsed.search}${parsed.hash}`;
+}
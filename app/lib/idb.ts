@@ -0,0 +1,31 @@
+/**
+ * Small IndexedDB helpers shared by the outbox and the persisted query cache
+ */
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Open (and create on first use) a database with a single object store
+ */
+export function openDatabase(
+    databaseName: string,
+    storeName: string,
+    storeOptions?: IDBObjectStoreParameters
+): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(storeName, storeOptions);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
@@ -0,0 +1,195 @@
+/**
+ * Request/response interceptors for the api layer
+ * Every safe* wrapper goes through safeRequest, which runs these hooks
+ *
+ * Order follows the onion model:
+ * - onRequest runs global interceptors first, then per-call/per-client ones
+ * - onResponse / onError run in reverse order on the way back out
+ *
+ * Hooks return Results instead of throwing: an onRequest Err short-circuits
+ * the request, an onError Ok recovers from a failure. A hook that throws anyway
+ * (or rejects) becomes an Err - a FetchError as is, anything else a NetworkError.
+ */
+import { Result } from "better-result";
+import type { RequestOptions } from "./api";
+import { isFetchError, NetworkError, type FetchError } from "./errors";
+import { mergeHeaders } from "./http";
+
+type Awaitable<T> = T | Promise<T>;
+
+/**
+ * The request as seen (and possibly rewritten) by interceptors
+ */
+export interface InterceptedRequest {
+    url: string;
+    options: RequestOptions;
+}
+
+export interface Interceptor {
+    name?: string;
+    onRequest?: (
+        request: InterceptedRequest
+    ) => Awaitable<Result<InterceptedRequest, FetchError>>;
+    onResponse?: (
+        response: Response,
+        request: InterceptedRequest
+    ) => Awaitable<Result<Response, FetchError>>;
+    onError?: (
+        error: FetchError,
+        request: InterceptedRequest
+    ) => Awaitable<Result<Response, FetchError>>;
+}
+
+/**
+ * Ordered collection of interceptors
+ * One global chain exists; api clients keep their own
+ */
+export class InterceptorChain {
+    private interceptors: Interceptor[] = [];
+
+    /**
+     * Register an interceptor; returns a function that removes it again
+     */
+    use(interceptor: Interceptor): () => void {
+        this.interceptors.push(interceptor);
+        return () => {
+            this.interceptors = this.interceptors.filter((item) => item !== interceptor);
+        };
+    }
+
+    clear(): void {
+        this.interceptors = [];
+    }
+
+    list(): readonly Interceptor[] {
+        return this.interceptors;
+    }
+}
+
+/**
+ * Interceptors applied to every request made through the api layer
+ */
+export const globalInterceptors = new InterceptorChain();
+
+/**
+ * Call one hook, turning a throw or rejection into an Err so safeRequest keeps
+ * its Result contract
+ */
+async function runHook<T>(
+    hook: () => Awaitable<Result<T, FetchError>>,
+    url: string
+): Promise<Result<T, FetchError>> {
+    const outcome = await Result.tryPromise({
+        try: async () => hook(),
+        catch: (cause) => (isFetchError(cause) ? cause : new NetworkError({ url, cause })),
+    });
+    return outcome.isErr() ? Result.err(outcome.error) : outcome.value;
+}
+
+/**
+ * Run onRequest hooks in order, stopping at the first Err
+ */
+export async function runRequestInterceptors(
+    interceptors: readonly Interceptor[],
+    request: InterceptedRequest
+): Promise<Result<InterceptedRequest, FetchError>> {
+    let current = request;
+    for (const interceptor of interceptors) {
+        const { onRequest } = interceptor;
+        if (!onRequest) continue;
+
+        const result = await runHook(() => onRequest(current), current.url);
+        if (result.isErr()) return result;
+        current = result.value;
+    }
+    return Result.ok(current);
+}
+
+/**
+ * Run onResponse / onError hooks in reverse order
+ * Each hook sees the outcome produced by the interceptors inside it
+ */
+export async function runResponseInterceptors(
+    interceptors: readonly Interceptor[],
+    request: InterceptedRequest,
+    result: Result<Response, FetchError>
+): Promise<Result<Response, FetchError>> {
+    let current = result;
+    for (const interceptor of [...interceptors].reverse()) {
+        const { onResponse, onError } = interceptor;
+        if (current.isOk() && onResponse) {
+            const response = current.value;
+            current = await runHook(() => onResponse(response, request), request.url);
+        } else if (current.isErr() && onError) {
+            const error = current.error;
+            current = await runHook(() => onError(error, request), request.url);
+        }
+    }
+    return current;
+}
+
+/**
+ * Return a copy of the request with extra headers merged in
+ */
+export function withHeaders(
+    request: InterceptedRequest,
+    headers: HeadersInit
+): InterceptedRequest {
+    return {
+        ...request,
+        options: { ...request.options, headers: mergeHeaders(request.options.headers, headers) },
+    };
+}
+
+/**
+ * Interceptor that adds static or lazily computed headers (e.g. auth tokens)
+ */
+export function createHeadersInterceptor(
+    headers: HeadersInit | (() => Awaitable<HeadersInit>)
+): Interceptor {
+    return {
+        name: "headers",
+        onRequest: async (request) => {
+            const resolved = typeof headers === "function" ? await headers() : headers;
+            return Result.ok(withHeaders(request, resolved));
+        },
+    };
+}
+
+/**
+ * Interceptor that tags each request with a correlation ID header
+ * An ID already present on the request is kept
+ */
+export function createCorrelationIdInterceptor(
+    headerName = "X-Correlation-ID",
+    generate: () => string = () => crypto.randomUUID()
+): Interceptor {
+    return {
+        name: "correlation-id",
+        onRequest: (request) => {
+            if (new Headers(request.options.headers).has(headerName)) {
+                return Result.ok(request);
+            }
+            return Result.ok(withHeaders(request, { [headerName]: generate() }));
+        },
+    };
+}
+
+/**
+ * Interceptor that logs each outcome without altering it
+ */
+export function createLoggingInterceptor(
+    log: (message: string) => void = console.debug
+): Interceptor {
+    return {
+        name: "logging",
+        onResponse: (response, request) => {
+            log(`[api] ${request.options.method ?? "GET"} ${request.url} -> ${response.status}`);
+            return Result.ok(response);
+        },
+        onError: (error, request) => {
+            log(`[api] ${request.options.method ?? "GET"} ${request.url} failed: ${error._tag}`);
+            return Result.err(error);
+        },
+    };
+}
@@ -0,0 +1,84 @@
+/**
+ * Trading schedules for the polled feeds
+ *
+ * Hours are wall-clock times in the market's own time zone (via Intl), so they
+ * follow daylight saving there. Public holidays are not modelled: on a holiday
+ * the feed is simply polled without new prices.
+ */
+
+export interface TradingSchedule {
+    timeZone: string;
+    // Trading days, 0 = Sunday ... 6 = Saturday
+    days: number[];
+    // Minutes after local midnight
+    opensAt: number;
+    closesAt: number;
+}
+
+// Gold Traders Association of Thailand announces prices Monday to Saturday, 09:00-17:30
+export const THAI_GOLD_HOURS: TradingSchedule = {
+    timeZone: "Asia/Bangkok",
+    days: [1, 2, 3, 4, 5, 6],
+    opensAt: 9 * 60,
+    closesAt: 17 * 60 + 30,
+};
+
+// NYSE regular session, Monday to Friday, 09:30-16:00
+export const NYSE_HOURS: TradingSchedule = {
+    timeZone: "America/New_York",
+    days: [1, 2, 3, 4, 5],
+    opensAt: 9 * 60 + 30,
+    closesAt: 16 * 60,
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Day, minute of the day and milliseconds into the minute, in a time zone
+ */
+function zonedClock(timeZone: string, now: number) {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            weekday: "short",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+            hourCycle: "h23",
+        });
+        formatters.set(timeZone, formatter);
+    }
+
+    const parts = Object.fromEntries(
+        formatter.formatToParts(now).map((part) => [part.type, part.value])
+    );
+    return {
+        day: WEEKDAYS.indexOf(parts.weekday),
+        minutes: Number(parts.hour) * 60 + Number(parts.minute),
+        intoMinuteMs: Number(parts.second) * 1000 + (now % 1000),
+    };
+}
+
+export function isMarketOpen(schedule: TradingSchedule, now = Date.now()): boolean {
+    const { day, minutes } = zonedClock(schedule.timeZone, now);
+    return schedule.days.includes(day) && minutes >= schedule.opensAt && minutes < schedule.closesAt;
+}
+
+/**
+ * Milliseconds until the market next opens - 0 while it is open
+ */
+export function msUntilOpen(schedule: TradingSchedule, now = Date.now()): number {
+    if (isMarketOpen(schedule, now)) return 0;
+
+    const { day, minutes, intoMinuteMs } = zonedClock(schedule.timeZone, now);
+    for (let offset = 0; offset <= 7; offset++) {
+        if (!schedule.days.includes((day + offset) % 7)) continue;
+        // Today only counts if the open is still ahead
+        if (offset === 0 && minutes >= schedule.opensAt) continue;
+        return (offset * 24 * 60 + schedule.opensAt - minutes) * 60 * 1000 - intoMinuteMs;
+    }
+    return 0;
+}
@@ -0,0 +1,412 @@
+/**
+ * Offline mutation outbox
+ *
+ * Mutations sent with `{ outbox }` (safePost/safePut/safePatch/safeDelete) that
+ * cannot reach the server - offline, network failure, timeout or open circuit -
+ * are stored here and replayed in order once connectivity returns.
+ *
+ * Items are persisted in IndexedDB in the browser and kept in memory on the server.
+ * Only JSON bodies are queued; replays go through safeRequest, so global
+ * interceptors (auth headers etc.) apply at replay time.
+ *
+ * Every tab shares the IndexedDB items, so replays hold a Web Lock: one tab sends
+ * a given mutation, the others find it settled when they get the lock. Items that
+ * went through are pruned once a replay finishes.
+ *
+ * An item that still cannot reach the server is retried on a timer - when its
+ * circuit lets requests through again, otherwise after a delay doubling per attempt.
+ * New mutations wait behind pending items for the same label or host (see
+ * hasPending), so the server sees them in the order they were made.
+ */
+import { Result } from "better-result";
+import { safeRequest } from "./api";
+import { hostOf } from "./circuit-breaker";
+import { CircuitOpenError, QueuedError, type FetchError } from "./errors";
+import { openDatabase, requestToPromise } from "./idb";
+
+export type OutboxStatus = "queued" | "replaying" | "done" | "failed";
+
+export type OutboxMethod = "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface OutboxItem {
+    id: string;
+    // Groups items so hooks can react to their own mutations (e.g. "users")
+    label: string | null;
+    method: OutboxMethod;
+    url: string;
+    headers: Record<string, string>;
+    body: string | null;
+    createdAt: number;
+    status: OutboxStatus;
+    attempts: number;
+    lastError: string | null;
+}
+
+export interface OutboxRequest {
+    method: OutboxMethod;
+    url: string;
+    headers?: HeadersInit;
+    body?: string | null;
+    label?: string;
+}
+
+/**
+ * Persistence backend for outbox items
+ */
+export interface OutboxStore {
+    getAll(): Promise<OutboxItem[]>;
+    get(id: string): Promise<OutboxItem | undefined>;
+    put(item: OutboxItem): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+export class MemoryOutboxStore implements OutboxStore {
+    private readonly items = new Map<string, OutboxItem>();
+
+    async getAll(): Promise<OutboxItem[]> {
+        return [...this.items.values()];
+    }
+
+    async get(id: string): Promise<OutboxItem | undefined> {
+        return this.items.get(id);
+    }
+
+    async put(item: OutboxItem): Promise<void> {
+        this.items.set(item.id, item);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.items.delete(id);
+    }
+}
+
+export class IndexedDbOutboxStore implements OutboxStore {
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(
+        private readonly databaseName = "api-outbox",
+        private readonly storeName = "items"
+    ) {}
+
+    private open(): Promise<IDBDatabase> {
+        this.database ??= openDatabase(this.databaseName, this.storeName, { keyPath: "id" });
+        return this.database;
+    }
+
+    private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const database = await this.open();
+        return database.transaction(this.storeName, mode).objectStore(this.storeName);
+    }
+
+    async getAll(): Promise<OutboxItem[]> {
+        return requestToPromise((await this.objectStore("readonly")).getAll());
+    }
+
+    async get(id: string): Promise<OutboxItem | undefined> {
+        const store = await this.objectStore("readonly");
+        return requestToPromise(store.get(id) as IDBRequest<OutboxItem | undefined>);
+    }
+
+    async put(item: OutboxItem): Promise<void> {
+        await requestToPromise((await this.objectStore("readwrite")).put(item));
+    }
+
+    async delete(id: string): Promise<void> {
+        await requestToPromise((await this.objectStore("readwrite")).delete(id));
+    }
+}
+
+const MIN_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export class Outbox {
+    private items: OutboxItem[] = [];
+    private loaded: Promise<void> | null = null;
+    private replaying: Promise<void> | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private running = false;
+    private readonly listeners = new Set<() => void>();
+    private readonly settledListeners = new Set<(item: OutboxItem) => void>();
+
+    constructor(
+        private readonly store: OutboxStore,
+        private readonly lockName = "outbox-replay"
+    ) {}
+
+    isOnline(): boolean {
+        return typeof navigator === "undefined" || navigator.onLine !== false;
+    }
+
+    /**
+     * Failures that mean "could not reach the server" - worth queueing for later
+     * Server responses (even 5xx) are not queued: the mutation may have been applied
+     */
+    shouldQueue(error: FetchError): boolean {
+        return (
+            error._tag === "NetworkError" ||
+            error._tag === "TimeoutError" ||
+            error._tag === "CircuitOpenError"
+        );
+    }
+
+    /**
+     * Items in replay order (stable reference until something changes)
+     */
+    getSnapshot(): readonly OutboxItem[] {
+        return this.items;
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Listen for items that finished replaying (done or failed)
+     */
+    onSettled(listener: (item: OutboxItem) => void): () => void {
+        this.settledListeners.add(listener);
+        return () => this.settledListeners.delete(listener);
+    }
+
+    /**
+     * Load persisted items once
+     * Items a closed or crashed tab left "replaying" go back in the queue - unless
+     * another tab is replaying right now, in which case it settles them itself
+     */
+    load(): Promise<void> {
+        this.loaded ??= this.withReplayLock({ ifAvailable: true }, (locked) =>
+            this.refresh(locked)
+        ).catch(() => undefined);
+        return this.loaded;
+    }
+
+    /**
+     * Whether items for the same label or host are still waiting to be sent -
+     * a new mutation for them must go behind them to keep the order
+     */
+    async hasPending(request: Pick<OutboxRequest, "url" | "label">): Promise<boolean> {
+        await this.load();
+        const host = hostOf(request.url);
+        return this.items.some(
+            (item) =>
+                (item.status === "queued" || item.status === "replaying") &&
+                ((request.label !== undefined && item.label === request.label) ||
+                    (host !== null && hostOf(item.url) === host))
+        );
+    }
+
+    /**
+     * Store a mutation and return the QueuedError reported to the caller
+     */
+    async enqueue(request: OutboxRequest): Promise<Result<never, FetchError>> {
+        await this.load();
+
+        const item: OutboxItem = {
+            id: crypto.randomUUID(),
+            label: request.label ?? null,
+            method: request.method,
+            url: request.url,
+            headers: Object.fromEntries(new Headers(request.headers).entries()),
+            body: request.body ?? null,
+            createdAt: Date.now(),
+            status: "queued",
+            attempts: 0,
+            lastError: null,
+        };
+        await this.save(item);
+
+        return Result.err(new QueuedError({ id: item.id, method: item.method, url: item.url }));
+    }
+
+    /**
+     * Replay queued items in order
+     * Stops at the first item that still cannot reach the server (and schedules
+     * the next attempt); items the server rejects are marked failed and replay
+     * continues with the next one
+     */
+    replay(): Promise<void> {
+        this.replaying ??= this.runReplay().finally(() => {
+            this.replaying = null;
+        });
+        return this.replaying;
+    }
+
+    /**
+     * Put a failed item back in the queue and replay
+     */
+    async retry(id: string): Promise<void> {
+        const item = this.items.find((entry) => entry.id === id);
+        if (!item) return;
+        await this.save({ ...item, status: "queued" });
+        await this.replay();
+    }
+
+    async remove(id: string): Promise<void> {
+        await Result.tryPromise(() => this.store.delete(id));
+        this.setItems(this.items.filter((item) => item.id !== id));
+    }
+
+    async clearCompleted(): Promise<void> {
+        for (const item of this.items.filter((entry) => entry.status === "done")) {
+            await this.remove(item.id);
+        }
+    }
+
+    /**
+     * Run a task holding the cross-tab replay lock - `locked` is false when
+     * `ifAvailable` is set and another tab holds it
+     * Without Web Locks (or on the server) there is no other tab to wait for
+     */
+    private async withReplayLock(
+        options: LockOptions,
+        task: (locked: boolean) => Promise<void>
+    ): Promise<void> {
+        if (typeof navigator === "undefined" || !navigator.locks) return task(true);
+        await navigator.locks.request(this.lockName, options, (lock) => task(lock !== null));
+    }
+
+    /**
+     * Re-read items from the store; with the replay lock held no request is in
+     * flight, so "replaying" items were orphaned and are queued again
+     */
+    private async refresh(locked: boolean): Promise<void> {
+        const items = await this.store.getAll();
+        if (!locked) {
+            this.setItems(items);
+            return;
+        }
+
+        const recovered: OutboxItem[] = [];
+        for (const item of items) {
+            if (item.status !== "replaying") {
+                recovered.push(item);
+                continue;
+            }
+            const queued: OutboxItem = { ...item, status: "queued" };
+            await Result.tryPromise(() => this.store.put(queued));
+            recovered.push(queued);
+        }
+        this.setItems(recovered);
+    }
+
+    /**
+     * Replay now, whenever the browser comes back online and when a retry is due
+     * Returns a cleanup function
+     */
+    start(): () => void {
+        if (typeof window === "undefined") return () => undefined;
+
+        this.running = true;
+        const onOnline = () => void this.replay();
+        window.addEventListener("online", onOnline);
+        void this.load().then(() => this.replay());
+        return () => {
+            this.running = false;
+            this.cancelRetry();
+            window.removeEventListener("online", onOnline);
+        };
+    }
+
+    private async runReplay(): Promise<void> {
+        await this.load();
+        this.cancelRetry();
+        await this.withReplayLock({}, async () => {
+            // Another tab may have replayed or queued items since they were loaded
+            await Result.tryPromise(() => this.refresh(true));
+            const retryInMs = await this.replayQueued();
+            if (retryInMs !== null) this.scheduleRetry(retryInMs);
+            await this.clearCompleted();
+        });
+    }
+
+    /**
+     * Delay before retrying an item that could not reach the server: until its
+     * circuit allows a trial request, otherwise doubling per attempt (capped)
+     */
+    private retryDelay(attempts: number, error: FetchError, now = Date.now()): number {
+        if (CircuitOpenError.is(error) && error.retryAt !== null) {
+            return Math.max(error.retryAt - now, MIN_RETRY_DELAY_MS);
+        }
+        return Math.min(MIN_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    }
+
+    private scheduleRetry(delayMs: number): void {
+        // Offline the "online" event replays instead; on the server nothing replays
+        if (!this.running || !this.isOnline()) return;
+        this.cancelRetry();
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            void this.replay();
+        }, delayMs);
+    }
+
+    private cancelRetry(): void {
+        if (this.retryTimer === null) return;
+        clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+    }
+
+    /**
+     * Send queued items in order
+     * Returns the delay before the next attempt when one still could not be sent
+     */
+    private async replayQueued(): Promise<number | null> {
+        for (const item of this.items.filter((entry) => entry.status === "queued")) {
+            if (!this.isOnline()) return null;
+
+            // Skip items removed (e.g. from another tab) while earlier ones were sent
+            const current = await Result.tryPromise(() => this.store.get(item.id));
+            if (current.isOk() && current.value?.status !== "queued") continue;
+
+            await this.save({ ...item, status: "replaying", attempts: item.attempts + 1 });
+            const result = await safeRequest(item.url, {
+                method: item.method,
+                headers: item.headers,
+                body: item.body,
+            });
+
+            if (result.isErr() && this.shouldQueue(result.error)) {
+                await this.save({
+                    ...item,
+                    status: "queued",
+                    attempts: item.attempts + 1,
+                    lastError: result.error.message,
+                });
+                return this.retryDelay(item.attempts + 1, result.error);
+            }
+
+            const settled: OutboxItem = {
+                ...item,
+                status: result.isOk() ? "done" : "failed",
+                attempts: item.attempts + 1,
+                lastError: result.isErr() ? result.error.message : null,
+            };
+            await this.save(settled);
+            this.settledListeners.forEach((listener) => listener(settled));
+        }
+        return null;
+    }
+
+    private async save(item: OutboxItem): Promise<void> {
+        await Result.tryPromise(() => this.store.put(item));
+        const exists = this.items.some((entry) => entry.id === item.id);
+        this.setItems(
+            exists
+                ? this.items.map((entry) => (entry.id === item.id ? item : entry))
+                : [...this.items, item]
+        );
+    }
+
+    private setItems(items: OutboxItem[]): void {
+        this.items = [...items].sort((a, b) => a.createdAt - b.createdAt);
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+/**
+ * Shared outbox - IndexedDB-backed in the browser, in-memory during SSR
+ */
+export const outbox = new Outbox(
+    typeof indexedDB === "undefined" ? new MemoryOutboxStore() : new IndexedDbOutboxStore()
+);
@@ -0,0 +1,165 @@
+/**
+ * Adaptive polling for the price feeds
+ *
+ * adaptiveInterval(policy) builds a `refetchInterval` function that polls only
+ * while the page is visible, in the query's leader tab (see ./query-sync - one per
+ * query, among the visible tabs showing it), while the browser is online and the
+ * asset trades - when its market is closed the next refresh is at the open. After consecutive failures the interval doubles per failure (capped,
+ * and never shorter than a Retry-After).
+ *
+ * Each query's outcome - when it refreshes next, or why it is paused - is kept in
+ * pollingStatus (see usePollingStatus) so feeds can show a countdown.
+ * startAdaptivePolling() re-evaluates intervals when visibility or connectivity change.
+ */
+import type { Query, QueryClient, QueryKey } from "@tanstack/react-query";
+import { classifyError } from "./error-classification";
+import { isFetchError } from "./errors";
+import { msUntilOpen, type TradingSchedule } from "./market-hours";
+import { restartPolling, tabLeader } from "./query-sync";
+
+export type PollingState =
+    | "scheduled"
+    | "fetching"
+    | "backoff"
+    | "market-closed"
+    | "hidden"
+    | "offline"
+    | "follower";
+
+export interface PollingStatus {
+    state: PollingState;
+    // null while polling is paused or a fetch is running
+    nextRefreshAt: number | null;
+}
+
+export interface PollingPolicy {
+    intervalMs: number;
+    // Omit for assets that trade around the clock
+    schedule?: TradingSchedule;
+    // Longest interval when backing off after failures
+    maxBackoffMs?: number;
+}
+
+const DEFAULT_MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+// Overdue refreshes (e.g. after the tab was hidden) run after this delay
+const MIN_DELAY_MS = 1000;
+
+/**
+ * Latest polling status per query hash
+ * Observable through subscribe()/getSnapshot() (see usePollingStatus)
+ */
+export class PollingStatusStore {
+    private readonly statuses = new Map<string, PollingStatus>();
+    private readonly listeners = new Set<() => void>();
+
+    getSnapshot(queryHash: string): PollingStatus | undefined {
+        return this.statuses.get(queryHash);
+    }
+
+    set(queryHash: string, status: PollingStatus): void {
+        const current = this.statuses.get(queryHash);
+        // Intervals are recomputed on every render - only second-level changes matter
+        const unchanged =
+            current?.state === status.state &&
+            Math.abs((current.nextRefreshAt ?? 0) - (status.nextRefreshAt ?? 0)) < 1000;
+        if (unchanged) return;
+
+        this.statuses.set(queryHash, status);
+        this.listeners.forEach((listener) => listener());
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+}
+
+export const pollingStatus = new PollingStatusStore();
+
+// Any feed query - the policy never looks at the data itself
+type PolledQuery<TData> = Query<TData, Error, TData, QueryKey>;
+
+// errorUpdateCount as of the last success seen per query
+const successBaselines = new WeakMap<object, number>();
+
+function consecutiveFailures<TData>(query: PolledQuery<TData>): number {
+    const { dataUpdatedAt, errorUpdatedAt, errorUpdateCount } = query.state;
+    if (dataUpdatedAt >= errorUpdatedAt) {
+        successBaselines.set(query, errorUpdateCount);
+        return 0;
+    }
+    return errorUpdateCount - (successBaselines.get(query) ?? 0);
+}
+
+function resolveStatus<TData>(
+    query: PolledQuery<TData>,
+    policy: PollingPolicy,
+    now: number
+): PollingStatus {
+    if (document.visibilityState === "hidden") return { state: "hidden", nextRefreshAt: null };
+    if (!tabLeader.isLeader(query.queryHash)) return { state: "follower", nextRefreshAt: null };
+    if (!navigator.onLine) return { state: "offline", nextRefreshAt: null };
+    if (query.state.fetchStatus === "fetching") return { state: "fetching", nextRefreshAt: null };
+
+    const untilOpen = policy.schedule ? msUntilOpen(policy.schedule, now) : 0;
+    if (untilOpen > 0) return { state: "market-closed", nextRefreshAt: now + untilOpen };
+
+    const lastUpdate = Math.max(query.state.dataUpdatedAt, query.state.errorUpdatedAt);
+    const failures = consecutiveFailures(query);
+    if (failures === 0) {
+        return {
+            state: "scheduled",
+            nextRefreshAt: Math.max(lastUpdate + policy.intervalMs, now + MIN_DELAY_MS),
+        };
+    }
+
+    const { error } = query.state;
+    const retryAfterMs = isFetchError(error) ? (classifyError(error).retryAfterMs ?? 0) : 0;
+    const backoffMs = Math.min(
+        policy.intervalMs * 2 ** failures,
+        policy.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+    );
+    const delayMs = Math.max(backoffMs, retryAfterMs);
+    return {
+        state: "backoff",
+        nextRefreshAt: Math.max(lastUpdate + delayMs, now + MIN_DELAY_MS),
+    };
+}
+
+/**
+ * `refetchInterval` following a polling policy
+ * e.g. `refetchInterval: adaptiveInterval({ intervalMs: 60 * 1000, schedule: NYSE_HOURS })`
+ */
+export function adaptiveInterval(policy: PollingPolicy) {
+    return <TData>(query: PolledQuery<TData>): number | false => {
+        // Polling only happens in the browser
+        if (typeof window === "undefined") return policy.intervalMs;
+
+        const now = Date.now();
+        const status = resolveStatus(query, policy, now);
+        pollingStatus.set(query.queryHash, status);
+
+        // A running fetch re-evaluates the interval when it settles
+        if (status.state === "fetching") return policy.intervalMs;
+        return status.nextRefreshAt === null ? false : status.nextRefreshAt - now;
+    };
+}
+
+/**
+ * Re-evaluate polling when the tab is shown or hidden and when connectivity changes
+ * Returns a cleanup function (no-op during SSR)
+ */
+export function startAdaptivePolling(queryClient: QueryClient): () => void {
+    if (typeof window === "undefined") return () => undefined;
+
+    const onChange = () => restartPolling(queryClient);
+    document.addEventListener("visibilitychange", onChange);
+    window.addEventListener("online", onChange);
+    window.addEventListener("offline", onChange);
+    return () => {
+        document.removeEventListener("visibilitychange", onChange);
+        window.removeEventListener("online", onChange);
+        window.removeEventListener("offline", onChange);
+    };
+}
@@ -0,0 +1,79 @@
+/**
+ * RFC 7807 / RFC 9457 problem details carried by failed API responses
+ * (`Content-Type: application/problem+json`)
+ */
+
+export interface ProblemDetails {
+    type: string;
+    title?: string;
+    status?: number;
+    detail?: string;
+    instance?: string;
+    // Per-field validation messages, normalised from the common extension shapes
+    fieldErrors: Record<string, string[]>;
+    // Any other extension members, untouched
+    extensions: Record<string, unknown>;
+}
+
+const STANDARD_MEMBERS = new Set(["type", "title", "status", "detail", "instance"]);
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Collect field errors from the shapes servers commonly use:
+ * - `errors: { field: ["message"] }` (ASP.NET, Rails)
+ * - `errors: [{ field|name|pointer, message|detail|reason }]`
+ * - `invalid-params: [{ name, reason }]` (RFC 7807 example)
+ */
+function collectFieldErrors(body: Record<string, unknown>): Record<string, string[]> {
+    // No prototype: fields named "constructor" or "__proto__" are plain keys here
+    const fieldErrors: Record<string, string[]> = Object.create(null);
+    const add = (field: unknown, message: unknown) => {
+        if (typeof field !== "string" || typeof message !== "string") return;
+        (fieldErrors[field] ??= []).push(message);
+    };
+
+    for (const source of [body.errors, body["invalid-params"]]) {
+        if (Array.isArray(source)) {
+            for (const item of source) {
+                if (typeof item !== "object" || item === null) continue;
+                const entry = item as Record<string, unknown>;
+                add(
+                    entry.field ?? entry.name ?? entry.pointer,
+                    entry.message ?? entry.detail ?? entry.reason
+                );
+            }
+        } else if (typeof source === "object" && source !== null) {
+            for (const [field, messages] of Object.entries(source)) {
+                const list = Array.isArray(messages) ? messages : [messages];
+                list.forEach((message) => add(field, message));
+            }
+        }
+    }
+    return fieldErrors;
+}
+
+/**
+ * Normalise a parsed problem+json body; returns undefined for non-objects
+ */
+export function toProblemDetails(body: unknown): ProblemDetails | undefined {
+    if (typeof body !== "object" || body === null || Array.isArray(body)) return undefined;
+
+    const record = body as Record<string, unknown>;
+    const extensions = Object.fromEntries(
+        Object.entries(record).filter(([key]) => !STANDARD_MEMBERS.has(key))
+    );
+
+    return {
+        // "about:blank" is the RFC default when type is absent
+        type: optionalString(record.type) ?? "about:blank",
+        title: optionalString(record.title),
+        status: typeof record.status === "number" ? record.status : undefined,
+        detail: optionalString(record.detail),
+        instance: optionalString(record.instance),
+        fieldErrors: collectFieldErrors(record),
+        extensions,
+    };
+}
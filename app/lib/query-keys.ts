@@ -12,6 +12,9 @@ export const userKeys = {
     // List queries with optional filters
     lists: () => [...userKeys.all, "list"] as const,
 
+    // Page-by-page list (useInfiniteQuery)
+    infinite: () => [...userKeys.lists(), "infinite"] as const,
+
     // Single user by ID
     detail: (id: number) => [...userKeys.all, "detail", id] as const,
 
@@ -20,9 +23,26 @@ export const userKeys = {
         [...userKeys.lists(), filters] as const,
 };
 
-// Example usage for other entities:
-// export const postKeys = {
-//   all: ["posts"] as const,
-//   lists: () => [...postKeys.all, "list"] as const,
-//   detail: (id: number) => [...postKeys.all, "detail", id] as const,
-// };
+export const bitcoinKeys = {
+    // All bitcoin queries
+    all: ["bitcoin"] as const,
+
+    // Latest ticker prices
+    price: () => [...bitcoinKeys.all, "price"] as const,
+};
+
+export const goldKeys = {
+    // All gold queries
+    all: ["gold"] as const,
+
+    // Latest Thai gold prices
+    price: () => [...goldKeys.all, "price"] as const,
+};
+
+export const etfKeys = {
+    // All ETF queries
+    all: ["etf"] as const,
+
+    // Top dividend ETFs
+    dividends: () => [...etfKeys.all, "dividends"] as const,
+};
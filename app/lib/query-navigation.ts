@@ -0,0 +1,29 @@
+/**
+ * Client-side route loading from the browser's query cache
+ *
+ * Feed routes prefetch on the server for the first page load (see ./query-ssr.server).
+ * Client-side navigations run their clientLoader instead: it reads the query from the
+ * browser cache when it is there - no server round trip - and otherwise fetches it
+ * once before rendering. A failure is left to the component's own error state.
+ */
+import type { QueryClient } from "@tanstack/react-query";
+import { Result } from "better-result";
+import { getQueryClient } from "~/providers/query-provider";
+
+/**
+ * Run the loads against the browser QueryClient; resolves once they settle
+ */
+export async function loadQueries(
+    load: (queryClient: QueryClient) => Promise<unknown>
+): Promise<null> {
+    await Result.tryPromise(() => load(getQueryClient()));
+    return null;
+}
+
+/**
+ * Query options for a navigation load: a single attempt, so a failing upstream
+ * does not hold up the navigation for the query's retries
+ */
+export function navigationQuery<T extends object>(options: T): T {
+    return { ...options, retry: false };
+}
@@ -0,0 +1,188 @@
+/**
+ * Persisted query cache
+ *
+ * Queries opt in with `meta: { persist: true }` (spread `persistedQuery` into their
+ * options in app/queries). Their successful data is dehydrated to browser storage -
+ * IndexedDB, or localStorage where it is unavailable - and restored on the next visit,
+ * so a reload shows the last prices right away while fresh data is fetched.
+ *
+ * A snapshot older than maxAgeMs, or written by another build (buster), is discarded.
+ * Restoring runs from an effect, after React has hydrated the server HTML, so the
+ * first client render matches SSR; hydrate() never replaces newer (SSR) data.
+ */
+import { dehydrate, hydrate, type DehydratedState, type QueryClient } from "@tanstack/react-query";
+import { Result } from "better-result";
+import { buildConfig } from "./config";
+import { openDatabase, requestToPromise } from "./idb";
+
+declare module "@tanstack/react-query" {
+    interface Register {
+        queryMeta: {
+            // Keep this query's data across reloads
+            persist?: boolean;
+        };
+    }
+}
+
+export interface PersistedQueryCache {
+    buster: string;
+    timestamp: number;
+    clientState: DehydratedState;
+}
+
+/**
+ * Storage backend for the persisted snapshot
+ */
+export interface QueryCacheStorage {
+    read(): Promise<PersistedQueryCache | undefined>;
+    write(cache: PersistedQueryCache): Promise<void>;
+    remove(): Promise<void>;
+}
+
+export class LocalStorageQueryCacheStorage implements QueryCacheStorage {
+    constructor(private readonly key = "query-cache") {}
+
+    async read(): Promise<PersistedQueryCache | undefined> {
+        const raw = localStorage.getItem(this.key);
+        return raw === null ? undefined : (JSON.parse(raw) as PersistedQueryCache);
+    }
+
+    async write(cache: PersistedQueryCache): Promise<void> {
+        localStorage.setItem(this.key, JSON.stringify(cache));
+    }
+
+    async remove(): Promise<void> {
+        localStorage.removeItem(this.key);
+    }
+}
+
+export class IndexedDbQueryCacheStorage implements QueryCacheStorage {
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(
+        private readonly databaseName = "query-cache",
+        private readonly storeName = "snapshots",
+        private readonly key = "default"
+    ) {}
+
+    private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        this.database ??= openDatabase(this.databaseName, this.storeName);
+        const database = await this.database;
+        return database.transaction(this.storeName, mode).objectStore(this.storeName);
+    }
+
+    async read(): Promise<PersistedQueryCache | undefined> {
+        const store = await this.objectStore("readonly");
+        return requestToPromise(store.get(this.key) as IDBRequest<PersistedQueryCache | undefined>);
+    }
+
+    async write(cache: PersistedQueryCache): Promise<void> {
+        await requestToPromise((await this.objectStore("readwrite")).put(cache, this.key));
+    }
+
+    async remove(): Promise<void> {
+        await requestToPromise((await this.objectStore("readwrite")).delete(this.key));
+    }
+}
+
+export interface QueryPersistOptions {
+    // Snapshots from a different build are discarded
+    buster: string;
+    maxAgeMs: number;
+    // Writes are batched: at most one per interval
+    throttleMs: number;
+}
+
+// Persisted data is dropped after a day
+export const QUERY_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options to spread into a queryOptions factory to persist that query
+ * gcTime matches the max age so inactive data is not collected (and dropped
+ * from the snapshot) long before it would expire
+ */
+export const persistedQuery = {
+    meta: { persist: true },
+    gcTime: QUERY_CACHE_MAX_AGE_MS,
+};
+
+export class QueryCachePersister {
+    constructor(
+        private readonly storage: QueryCacheStorage,
+        private readonly options: QueryPersistOptions
+    ) {}
+
+    /**
+     * Hydrate the client from the stored snapshot, discarding it when expired or busted
+     * Storage failures are ignored - the queries simply fetch as usual
+     */
+    async restore(queryClient: QueryClient): Promise<void> {
+        const cache = await Result.tryPromise(() => this.storage.read());
+        if (cache.isErr() || !cache.value) return;
+
+        const { buster, timestamp, clientState } = cache.value;
+        if (buster !== this.options.buster || Date.now() - timestamp > this.options.maxAgeMs) {
+            await Result.tryPromise(() => this.storage.remove());
+            return;
+        }
+        hydrate(queryClient, clientState);
+    }
+
+    /**
+     * Write the opted-in, successful queries to storage
+     */
+    async persist(queryClient: QueryClient): Promise<void> {
+        const clientState = dehydrate(queryClient, {
+            shouldDehydrateQuery: (query) =>
+                query.meta?.persist === true && query.state.status === "success",
+            shouldDehydrateMutation: () => false,
+        });
+        await Result.tryPromise(() =>
+            this.storage.write({ buster: this.options.buster, timestamp: Date.now(), clientState })
+        );
+    }
+
+    /**
+     * Restore, then persist whenever an opted-in query changes
+     * Returns a cleanup function (no-op during SSR)
+     */
+    start(queryClient: QueryClient): () => void {
+        if (typeof window === "undefined") return () => undefined;
+
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let unsubscribe: (() => void) | null = null;
+        let stopped = false;
+
+        // Subscribe only after restoring, so the old snapshot is not overwritten first
+        void this.restore(queryClient).then(() => {
+            if (stopped) return;
+            unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+                if (event.query.meta?.persist !== true) return;
+                timer ??= setTimeout(() => {
+                    timer = null;
+                    void this.persist(queryClient);
+                }, this.options.throttleMs);
+            });
+        });
+
+        return () => {
+            stopped = true;
+            unsubscribe?.();
+            if (timer) clearTimeout(timer);
+        };
+    }
+}
+
+/**
+ * Persister used by QueryProvider - IndexedDB when available, else localStorage
+ */
+export const queryCachePersister = new QueryCachePersister(
+    typeof indexedDB === "undefined"
+        ? new LocalStorageQueryCacheStorage()
+        : new IndexedDbQueryCacheStorage(),
+    {
+        buster: buildConfig.id,
+        maxAgeMs: QUERY_CACHE_MAX_AGE_MS,
+        throttleMs: 1000,
+    }
+);
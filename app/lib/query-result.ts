@@ -0,0 +1,82 @@
+/**
+ * Result-aware helpers for TanStack Query
+ *
+ * Services return Result<T, FetchError> while queries and mutations expect a
+ * throwing function. These helpers throw the original tagged error - never a
+ * plain Error - so `query.error` keeps its `_tag` and components can matchError on it.
+ * `error` stays typed as Error in hooks (any queryFn can throw anything), so narrow
+ * it with isFetchError before reading the tag.
+ */
+import { matchError, type Result } from "better-result";
+import { classifyError } from "./error-classification";
+import { isFetchError, type FetchError } from "./errors";
+
+/**
+ * Return the value of an Ok result, or throw its tagged error unchanged
+ */
+export function unwrapResult<T>(result: Result<T, FetchError>): T {
+    if (result.isErr()) throw result.error;
+    return result.value;
+}
+
+/**
+ * Turn a Result-returning fetcher into a queryFn
+ * e.g. `queryFn: resultQueryFn(({ signal }) => fetchUsers({ signal }))`
+ */
+export function resultQueryFn<TContext, T>(
+    fetcher: (context: TContext) => Promise<Result<T, FetchError>>
+): (context: TContext) => Promise<T> {
+    return async (context) => unwrapResult(await fetcher(context));
+}
+
+/**
+ * Turn a Result-returning service call into a mutationFn
+ * e.g. `mutationFn: resultMutationFn((user: User) => createUser(user))`
+ */
+export function resultMutationFn<TVariables, T>(
+    mutate: (variables: TVariables) => Promise<Result<T, FetchError>>
+): (variables: TVariables) => Promise<T> {
+    return async (variables) => unwrapResult(await mutate(variables));
+}
+
+// Longest wait between query retries
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * `retry` function for queries: up to `maxRetries` retries, and only for errors
+ * classified as retryable. A Retry-After beyond the longest backoff gives up instead.
+ * Hooks needing a different budget pass their own, e.g. `retry: createQueryRetry(5)`
+ */
+export function createQueryRetry(maxRetries = 3) {
+    // Errors that are not FetchErrors (bugs in a queryFn) are not retried
+    return (failureCount: number, error: Error): boolean => {
+        if (failureCount >= maxRetries || !isFetchError(error)) return false;
+        const { retryable, retryAfterMs } = classifyError(error);
+        return retryable && (retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_DELAY_MS);
+    };
+}
+
+/**
+ * `retryDelay` for queries: exponential backoff, stretched to Retry-After when present
+ */
+export function queryRetryDelay(attemptIndex: number, error: Error): number {
+    const backoff = Math.min(1000 * 2 ** attemptIndex, MAX_RETRY_DELAY_MS);
+    const retryAfterMs = isFetchError(error) ? classifyError(error).retryAfterMs : undefined;
+    return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+/**
+ * One-line summary of a fetch error, for toasts and logs
+ */
+export function describeFetchError(error: FetchError): string {
+    return matchError(error, {
+        ApiError: (e) => `API Error: ${e.status} - ${e.statusText}`,
+        NetworkError: (e) => `Network Error: ${e.message}`,
+        ParseError: (e) => `Parse Error: ${e.message}`,
+        ValidationError: (e) => `Validation Error: ${e.path} - expected ${e.expected}`,
+        TimeoutError: (e) => `Timeout Error: no response after ${e.timeoutMs}ms`,
+        AbortedError: (e) => `Request Aborted: ${e.url}`,
+        CircuitOpenError: (e) => `Upstream Unavailable: ${e.host}`,
+        QueuedError: (e) => `Queued: ${e.method} ${e.url} will be sent when back online`,
+    });
+}
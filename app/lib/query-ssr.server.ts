@@ -0,0 +1,33 @@
+/**
+ * Server-side query prefetching for route loaders
+ *
+ * Every request gets its own QueryClient, so cached data never leaks between users.
+ * A loader returns `{ dehydratedState }` and the root hydrates it into the browser
+ * client (see useRouteDehydratedState), so the first paint already has real data.
+ */
+import { dehydrate, type DehydratedState, type QueryClient } from "@tanstack/react-query";
+import { makeQueryClient } from "~/providers/query-provider";
+
+export interface PrefetchedData {
+    dehydratedState: DehydratedState;
+}
+
+/**
+ * Run the prefetches against a fresh QueryClient and dehydrate it
+ * Failed queries are not dehydrated - the browser fetches them again on mount
+ */
+export async function prefetchQueries(
+    prefetch: (queryClient: QueryClient) => Promise<unknown>
+): Promise<PrefetchedData> {
+    const queryClient = makeQueryClient();
+    await prefetch(queryClient);
+    return { dehydratedState: dehydrate(queryClient) };
+}
+
+/**
+ * Query options for a server prefetch: a failure is left to the browser's
+ * own retries instead of holding up the response
+ */
+export function ssrQuery<T extends object>(options: T): T {
+    return { ...options, retry: false };
+}
@@ -0,0 +1,212 @@
+/**
+ * Cross-tab query cache synchronization
+ *
+ * - QueryCacheSync mirrors successful query data and invalidations to the other
+ *   tabs of this origin over a BroadcastChannel, so a user created in one tab
+ *   shows up in the others without each of them refetching.
+ * - TabLeader elects, per polled query, one visible tab showing it (through a Web Lock
+ *   named after the query hash) to own its polling: adaptiveInterval (see ./polling)
+ *   only polls a query in its leader and the other tabs receive its results. Only
+ *   visible tabs queue for a lock - a leader that is hidden, stops showing the query
+ *   or closes releases it and another visible tab showing the query takes over.
+ *
+ * Without BroadcastChannel or Web Locks every tab behaves as before: it polls on its own.
+ */
+import type { DehydratedState, QueryClient, QueryKey } from "@tanstack/react-query";
+import { hydrate } from "@tanstack/react-query";
+import { Result } from "better-result";
+
+type QuerySyncMessage =
+    | { type: "updated"; query: DehydratedState["queries"][number] }
+    | { type: "invalidated"; queryKey: QueryKey };
+
+export class TabLeader {
+    // Tabs that cannot take part in the elections lead every query
+    private readonly supported = typeof navigator !== "undefined" && !!navigator.locks;
+    // Queries this tab polls, and the pending or held lock request for each
+    private readonly candidacies = new Map<string, AbortController | null>();
+    private readonly leading = new Set<string>();
+    private readonly listeners = new Set<() => void>();
+    private running = false;
+
+    constructor(private readonly lockPrefix = "query-polling-leader") {}
+
+    /**
+     * Whether this tab polls the query
+     * The first call enters the tab into the query's election
+     */
+    isLeader(queryHash: string): boolean {
+        if (!this.supported) return true;
+        if (!this.candidacies.has(queryHash)) {
+            this.candidacies.set(queryHash, null);
+            if (this.canLead()) this.join(queryHash);
+        }
+        return this.leading.has(queryHash);
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Queue for the lock of every polled query while the tab is visible; each lock is
+     * held until the tab is hidden, stops observing the query, is cleaned up or closed
+     * Returns a cleanup function
+     */
+    start(queryClient: QueryClient): () => void {
+        if (!this.supported) return () => undefined;
+        this.running = true;
+
+        // A hidden leader would stop polling for every tab - hand its locks to a visible one
+        const onVisibilityChange = () =>
+            [...this.candidacies.keys()].forEach((queryHash) =>
+                this.canLead() ? this.join(queryHash) : this.leave(queryHash)
+            );
+
+        // A query no longer shown in this tab is polled by a tab that still shows it
+        const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+            const { query } = event;
+            const unobserved =
+                event.type === "removed" ||
+                (event.type === "observerRemoved" && query.getObserversCount() === 0);
+            if (unobserved) {
+                this.leave(query.queryHash);
+                this.candidacies.delete(query.queryHash);
+            }
+        });
+
+        onVisibilityChange();
+        document.addEventListener("visibilitychange", onVisibilityChange);
+
+        return () => {
+            this.running = false;
+            document.removeEventListener("visibilitychange", onVisibilityChange);
+            unsubscribe();
+            [...this.candidacies.keys()].forEach((queryHash) => this.leave(queryHash));
+        };
+    }
+
+    private canLead(): boolean {
+        return this.running && document.visibilityState !== "hidden";
+    }
+
+    private join(queryHash: string): void {
+        if (this.candidacies.get(queryHash)) return;
+        const controller = new AbortController();
+        this.candidacies.set(queryHash, controller);
+
+        // Rejects with an AbortError when left while still waiting - nothing to do then
+        void Result.tryPromise(() =>
+            navigator.locks.request(
+                `${this.lockPrefix}:${queryHash}`,
+                { signal: controller.signal },
+                () => {
+                    this.setLeading(queryHash, true);
+                    return new Promise<void>((resolve) =>
+                        controller.signal.addEventListener("abort", () => resolve())
+                    );
+                }
+            )
+        );
+    }
+
+    private leave(queryHash: string): void {
+        if (!this.candidacies.has(queryHash)) return;
+        this.candidacies.get(queryHash)?.abort();
+        this.candidacies.set(queryHash, null);
+        this.setLeading(queryHash, false);
+    }
+
+    private setLeading(queryHash: string, leading: boolean): void {
+        if (this.leading.has(queryHash) === leading) return;
+        if (leading) {
+            this.leading.add(queryHash);
+        } else {
+            this.leading.delete(queryHash);
+        }
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+/**
+ * Per-query polling elections - shared by adaptive polling and QueryProvider
+ */
+export const tabLeader = new TabLeader();
+
+/**
+ * Make active queries re-read their refetchInterval - after a leadership change,
+ * so a new leader starts polling and a former one stops, without an extra fetch
+ */
+export function restartPolling(queryClient: QueryClient): void {
+    queryClient
+        .getQueryCache()
+        .findAll({ type: "active" })
+        .forEach((query) =>
+            query.observers.forEach((observer) => observer.setOptions(observer.options))
+        );
+}
+
+export class QueryCacheSync {
+    constructor(private readonly channelName = "query-cache") {}
+
+    /**
+     * Broadcast local query updates and apply the other tabs' ones
+     * Returns a cleanup function (no-op where BroadcastChannel is missing, e.g. SSR)
+     */
+    start(queryClient: QueryClient): () => void {
+        if (typeof BroadcastChannel === "undefined") return () => undefined;
+
+        const channel = new BroadcastChannel(this.channelName);
+        // Changes applied from another tab must not be sent back to it
+        let applyingRemote = false;
+
+        const post = (message: QuerySyncMessage) => {
+            // Data that cannot be cloned (class instances...) simply stays local
+            Result.try(() => channel.postMessage(message));
+        };
+
+        const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+            if (applyingRemote || event.type !== "updated") return;
+            const { query } = event;
+
+            if (event.action.type === "success") {
+                post({
+                    type: "updated",
+                    query: {
+                        queryHash: query.queryHash,
+                        queryKey: query.queryKey,
+                        state: query.state,
+                        meta: query.meta,
+                    },
+                });
+            } else if (event.action.type === "invalidate") {
+                post({ type: "invalidated", queryKey: query.queryKey });
+            }
+        });
+
+        channel.onmessage = (event: MessageEvent<QuerySyncMessage>) => {
+            const message = event.data;
+            applyingRemote = true;
+            Result.try(() => {
+                if (message.type === "updated") {
+                    // Only replaces local data that is older than the received data
+                    hydrate(queryClient, { queries: [message.query], mutations: [] });
+                } else {
+                    void queryClient.invalidateQueries({ queryKey: message.queryKey, exact: true });
+                }
+            });
+            applyingRemote = false;
+        };
+
+        return () => {
+            unsubscribe();
+            channel.close();
+        };
+    }
+}
+
+/**
+ * Sync used by QueryProvider
+ */
+export const queryCacheSync = new QueryCacheSync();
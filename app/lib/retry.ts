@@ -0,0 +1,124 @@
+/**
+ * Retry policy for the api layer
+ * Exponential backoff with full jitter, honoring Retry-After from the server
+ */
+import { ApiError, type FetchError } from "./errors";
+
+/**
+ * How safeRequest retries a failed attempt
+ * `maxAttempts` counts the first attempt, so 3 means up to 2 retries
+ */
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    jitter: boolean;
+    // ApiError statuses worth another attempt
+    retryStatuses: readonly number[];
+    // Non-ApiError tags worth another attempt
+    retryTags: readonly FetchError["_tag"][];
+    // Only these methods are retried - idempotent ones by default
+    methods: readonly string[];
+}
+
+/**
+ * Policy used when retries are enabled without further configuration
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 300,
+    maxDelayMs: 10 * 1000,
+    jitter: true,
+    retryStatuses: [408, 425, 429, 500, 502, 503, 504],
+    retryTags: ["NetworkError", "TimeoutError"],
+    methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+/**
+ * Retry option accepted by requests: `false` disables retries,
+ * a partial policy is merged over DEFAULT_RETRY_POLICY
+ */
+export type RetryOption = Partial<RetryPolicy> | false;
+
+/**
+ * Turn a retry option into a full policy, or null when retries are off
+ */
+export function resolveRetryPolicy(retry: RetryOption | undefined): RetryPolicy | null {
+    if (!retry) return null;
+    return { ...DEFAULT_RETRY_POLICY, ...retry };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return undefined;
+    return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff for the given attempt (1-based), with optional full jitter
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy): number {
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Decide whether an error is worth another attempt under the policy
+ */
+export function isRetryable(error: FetchError, method: string, policy: RetryPolicy): boolean {
+    if (!policy.methods.includes(method.toUpperCase())) return false;
+    if (error instanceof ApiError) return policy.retryStatuses.includes(error.status);
+    return policy.retryTags.includes(error._tag);
+}
+
+/**
+ * Delay before the next attempt, or null when the request should not be retried
+ * A Retry-After longer than maxDelayMs gives up instead of waiting
+ */
+export function getRetryDelay(
+    error: FetchError,
+    attempt: number,
+    method: string,
+    policy: RetryPolicy
+): number | null {
+    if (attempt >= policy.maxAttempts) return null;
+    if (!isRetryable(error, method, policy)) return null;
+
+    const backoff = computeBackoff(attempt, policy);
+    const retryAfterMs = error instanceof ApiError ? error.retryAfterMs : undefined;
+    if (retryAfterMs === undefined) return backoff;
+    if (retryAfterMs > policy.maxDelayMs) return null;
+    return Math.max(backoff, retryAfterMs);
+}
+
+/**
+ * Wait for the given delay, rejecting early with the signal's reason if it aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
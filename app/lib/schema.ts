@@ -0,0 +1,217 @@
+/**
+ * Minimal runtime schemas for validating API responses
+ * Each schema returns a Result so validation failures flow through the same
+ * FetchError channel as network and parse failures
+ */
+import { Result } from "better-result";
+import { ValidationError } from "./errors";
+
+type PathSegment = string | number;
+
+/**
+ * A runtime validator producing a typed value or a ValidationError
+ */
+export interface Schema<T> {
+    readonly expected: string;
+    validate(value: unknown, path?: readonly PathSegment[]): Result<T, ValidationError>;
+}
+
+/**
+ * Infer the validated type from a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Keys whose schema accepts undefined become optional properties
+type InferShape<S extends Shape> = Simplify<
+    { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } & {
+        [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+    }
+>;
+
+/**
+ * Format a path like `response.price.gold_bar.buy` or `[3].address.city`
+ */
+function formatPath(path: readonly PathSegment[]): string {
+    if (path.length === 0) return "(root)";
+    return path
+        .map((segment, index) => {
+            if (typeof segment === "number") return `[${segment}]`;
+            return index === 0 ? segment : `.${segment}`;
+        })
+        .join("");
+}
+
+/**
+ * Describe a value's runtime type for error messages
+ */
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function fail<T>(
+    path: readonly PathSegment[],
+    expected: string,
+    value: unknown
+): Result<T, ValidationError> {
+    return Result.err(
+        new ValidationError({ path: formatPath(path), expected, received: describe(value) })
+    );
+}
+
+/**
+ * Build a schema from a type guard
+ */
+function primitive<T>(expected: string, guard: (value: unknown) => value is T): Schema<T> {
+    return {
+        expected,
+        validate: (value, path = []) =>
+            guard(value) ? Result.ok(value) : fail(path, expected, value),
+    };
+}
+
+function string(options?: { pattern?: RegExp }): Schema<string> {
+    const expected = options?.pattern ? `string matching ${options.pattern}` : "string";
+    return primitive(
+        expected,
+        (value): value is string =>
+            typeof value === "string" && (!options?.pattern || options.pattern.test(value))
+    );
+}
+
+function number(): Schema<number> {
+    return primitive(
+        "number",
+        (value): value is number => typeof value === "number" && Number.isFinite(value)
+    );
+}
+
+function boolean(): Schema<boolean> {
+    return primitive("boolean", (value): value is boolean => typeof value === "boolean");
+}
+
+function literal<const L extends string | number | boolean>(expected: L): Schema<L> {
+    return primitive(JSON.stringify(expected), (value): value is L => value === expected);
+}
+
+function oneOf<const L extends string | number>(...values: L[]): Schema<L> {
+    return primitive(
+        values.map((value) => JSON.stringify(value)).join(" | "),
+        (value): value is L => values.includes(value as L)
+    );
+}
+
+/**
+ * Accepts any value as is - for payloads kept opaque (e.g. recorded response bodies)
+ */
+function unknown(): Schema<unknown> {
+    return primitive("unknown", (value): value is unknown => true);
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return {
+        expected: `${schema.expected} | undefined`,
+        validate: (value, path = []) =>
+            value === undefined ? Result.ok(undefined) : schema.validate(value, path),
+    };
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return {
+        expected: `${schema.expected} | null`,
+        validate: (value, path = []) =>
+            value === null ? Result.ok(null) : schema.validate(value, path),
+    };
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+    const expected = `${item.expected}[]`;
+    return {
+        expected,
+        validate: (value, path = []) => {
+            if (!Array.isArray(value)) return fail(path, expected, value);
+
+            const items: T[] = [];
+            for (const [index, entry] of value.entries()) {
+                const result = item.validate(entry, [...path, index]);
+                if (result.isErr()) return Result.err(result.error);
+                items.push(result.value);
+            }
+            return Result.ok(items);
+        },
+    };
+}
+
+/**
+ * Dictionary with arbitrary keys, e.g. a header map
+ */
+function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+    const expected = `Record<string, ${item.expected}>`;
+    return {
+        expected,
+        validate: (value, path = []) => {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                return fail(path, expected, value);
+            }
+
+            const output: Record<string, T> = {};
+            for (const [key, entry] of Object.entries(value)) {
+                const result = item.validate(entry, [...path, key]);
+                if (result.isErr()) return Result.err(result.error);
+                output[key] = result.value;
+            }
+            return Result.ok(output);
+        },
+    };
+}
+
+/**
+ * Object schema - unknown keys are stripped from the validated value
+ */
+function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    return {
+        expected: "object",
+        validate: (value, path = []) => {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                return fail(path, "object", value);
+            }
+
+            const output: Record<string, unknown> = {};
+            for (const [key, schema] of Object.entries(shape)) {
+                const result = schema.validate((value as Record<string, unknown>)[key], [
+                    ...path,
+                    key,
+                ]);
+                if (result.isErr()) return Result.err(result.error);
+                if (result.value !== undefined) output[key] = result.value;
+            }
+            return Result.ok(output as InferShape<S>);
+        },
+    };
+}
+
+/**
+ * Schema builders
+ *
+ * @example
+ * const priceSchema = s.object({ last: s.number(), symbol: s.optional(s.string()) });
+ * type Price = Infer<typeof priceSchema>;
+ */
+export const s = {
+    string,
+    number,
+    boolean,
+    literal,
+    oneOf,
+    unknown,
+    optional,
+    nullable,
+    array,
+    record,
+    object,
+};
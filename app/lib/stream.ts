@@ -0,0 +1,254 @@
+/**
+ * Streaming helper for Server-Sent Events and newline-delimited JSON
+ * Built on safeRequest, so interceptors, the circuit breaker and connect retries apply
+ *
+ * Each message is parsed as JSON (and validated when a schema is given) and yielded
+ * as its own Result: a malformed message yields a ParseError and the stream goes on.
+ * SSE streams reconnect after a dropped connection, sending `Last-Event-ID` and
+ * honouring the server's `retry:` delay; NDJSON streams end with the connection.
+ */
+import { Result } from "better-result";
+import { safeRequest, type RequestOptions } from "./api";
+import { AbortedError, NetworkError, ParseError, type FetchError } from "./errors";
+import { mergeHeaders } from "./http";
+import { sleep } from "./retry";
+import type { Schema } from "./schema";
+
+export type StreamFormat = "sse" | "ndjson";
+
+export interface ReconnectPolicy {
+    // Consecutive reconnects without a message before giving up
+    maxAttempts: number;
+    // Delay before reconnecting, until the server sends `retry:`
+    delayMs: number;
+}
+
+/**
+ * Options for safeStream
+ * `format` defaults to the response Content-Type (text/event-stream means SSE)
+ * `timeout` defaults to 0 here: a deadline would cut a healthy long-lived stream
+ * `lastEventId` resumes an SSE stream from a previously seen event
+ */
+export interface StreamOptions<T> extends RequestOptions {
+    format?: StreamFormat;
+    schema?: Schema<T>;
+    reconnect?: Partial<ReconnectPolicy> | false;
+    lastEventId?: string;
+}
+
+const DEFAULT_RECONNECT: ReconnectPolicy = {
+    maxAttempts: 5,
+    delayMs: 3 * 1000,
+};
+
+const ACCEPT: Record<StreamFormat, string> = {
+    sse: "text/event-stream",
+    ndjson: "application/x-ndjson",
+};
+
+interface SseEvent {
+    data: string;
+    id: string | null;
+    retryMs: number | null;
+}
+
+/**
+ * Map a failed body read to a FetchError (the caller's abort wins)
+ */
+function toReadError(cause: unknown, url: string, signal: AbortSignal | null | undefined) {
+    return signal?.aborted
+        ? new AbortedError({ url, reason: signal.reason })
+        : new NetworkError({ url, cause });
+}
+
+/**
+ * Split a response body into lines (\n, \r\n or \r)
+ * Yields a single Err and stops if reading fails
+ */
+async function* readLines(
+    body: ReadableStream<Uint8Array>,
+    url: string,
+    signal: AbortSignal | null | undefined
+): AsyncGenerator<Result<string, FetchError>> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+        while (true) {
+            const chunk = await Result.tryPromise({
+                try: () => reader.read(),
+                catch: (cause) => toReadError(cause, url, signal),
+            });
+            if (chunk.isErr()) {
+                yield Result.err(chunk.error);
+                return;
+            }
+            if (chunk.value.done) break;
+
+            buffer += decoder.decode(chunk.value.value, { stream: true });
+            // A trailing \r may be the first half of \r\n - keep it for the next chunk
+            const end = buffer.endsWith("\r") ? buffer.length - 1 : buffer.length;
+            const lines = buffer.slice(0, end).split(/\r\n|\r|\n/);
+            buffer = (lines.pop() ?? "") + buffer.slice(end);
+            for (const line of lines) {
+                yield Result.ok(line);
+            }
+        }
+
+        buffer += decoder.decode();
+        if (buffer !== "") {
+            yield Result.ok(buffer);
+        }
+    } finally {
+        // Also runs when the consumer stops iterating early: release the connection
+        void Result.tryPromise(() => reader.cancel());
+    }
+}
+
+/**
+ * Group SSE lines into dispatched events (see the EventSource parsing rules)
+ * Events without data are dropped; `id` carries over to later events
+ */
+async function* parseSse(
+    lines: AsyncIterable<Result<string, FetchError>>
+): AsyncGenerator<Result<SseEvent, FetchError>> {
+    let data: string[] = [];
+    let id: string | null = null;
+    let retryMs: number | null = null;
+
+    for await (const line of lines) {
+        if (line.isErr()) {
+            yield Result.err(line.error);
+            return;
+        }
+
+        if (line.value === "") {
+            if (data.length > 0) {
+                yield Result.ok({ data: data.join("\n"), id, retryMs });
+            }
+            data = [];
+            retryMs = null;
+            continue;
+        }
+        if (line.value.startsWith(":")) continue;
+
+        const colon = line.value.indexOf(":");
+        const field = colon === -1 ? line.value : line.value.slice(0, colon);
+        const value = colon === -1 ? "" : line.value.slice(colon + 1).replace(/^ /, "");
+
+        if (field === "data") {
+            data.push(value);
+        } else if (field === "id" && !value.includes("\0")) {
+            id = value;
+        } else if (field === "retry" && /^\d+$/.test(value)) {
+            retryMs = Number(value);
+        }
+    }
+}
+
+/**
+ * Parse and validate one message
+ */
+function parseMessage<T>(data: string, schema: Schema<T> | undefined): Result<T, FetchError> {
+    const parsed = Result.try({
+        try: () => JSON.parse(data) as unknown,
+        catch: (cause) => new ParseError({ cause }),
+    });
+    if (parsed.isErr() || !schema) {
+        return parsed as Result<T, FetchError>;
+    }
+    return schema.validate(parsed.value);
+}
+
+/**
+ * Whether a failure is a dropped or unreachable connection worth reconnecting after
+ */
+function isConnectionLoss(error: FetchError): boolean {
+    return error._tag === "NetworkError" || error._tag === "TimeoutError";
+}
+
+/**
+ * Consume an SSE or NDJSON endpoint as an async iterable of Results
+ * Iteration ends when the stream ends for good, on a non-recoverable error
+ * (yielded last), or when `signal` aborts (yields AbortedError)
+ */
+export async function* safeStream<T>(
+    url: string,
+    options?: StreamOptions<T>
+): AsyncGenerator<Result<T, FetchError>> {
+    const { format, schema, reconnect, lastEventId, ...requestOptions } = options ?? {};
+    const policy = reconnect === false ? null : { ...DEFAULT_RECONNECT, ...reconnect };
+    const signal = requestOptions.signal;
+
+    let eventId = lastEventId ?? null;
+    let delayMs = policy?.delayMs ?? 0;
+    let attempts = 0;
+    let isSse = format === "sse";
+
+    while (true) {
+        const response = await safeRequest(url, {
+            timeout: 0,
+            ...requestOptions,
+            headers: mergeHeaders(
+                { Accept: format ? ACCEPT[format] : `${ACCEPT.sse}, ${ACCEPT.ndjson}` },
+                requestOptions.headers,
+                eventId !== null ? { "Last-Event-ID": eventId } : undefined
+            ),
+        });
+
+        let lastError: FetchError | null = response.isErr() ? response.error : null;
+
+        if (response.isOk()) {
+            // 204 is the server's way of saying "stop reconnecting"
+            if (response.value.status === 204 || !response.value.body) return;
+
+            const contentType = response.value.headers.get("Content-Type") ?? "";
+            isSse = format ? format === "sse" : contentType.includes(ACCEPT.sse);
+            const lines = readLines(response.value.body, url, signal);
+
+            if (isSse) {
+                for await (const event of parseSse(lines)) {
+                    if (event.isErr()) {
+                        lastError = event.error;
+                        break;
+                    }
+                    attempts = 0;
+                    if (event.value.id !== null) eventId = event.value.id;
+                    if (event.value.retryMs !== null) delayMs = event.value.retryMs;
+                    yield parseMessage(event.value.data, schema);
+                }
+            } else {
+                for await (const line of lines) {
+                    if (line.isErr()) {
+                        lastError = line.error;
+                        break;
+                    }
+                    if (line.value.trim() === "") continue;
+                    yield parseMessage(line.value, schema);
+                }
+            }
+        }
+
+        const canReconnect =
+            isSse &&
+            policy !== null &&
+            attempts < policy.maxAttempts &&
+            (lastError === null || isConnectionLoss(lastError));
+
+        if (!canReconnect) {
+            if (lastError) yield Result.err(lastError);
+            return;
+        }
+
+        attempts++;
+        const waited = await Result.tryPromise({
+            try: () => sleep(delayMs, signal),
+            catch: () => new AbortedError({ url, reason: signal?.reason }),
+        });
+        if (waited.isErr()) {
+            yield Result.err(waited.error);
+            return;
+        }
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * Request tracing for the api layer
+ *
+ * safeRequest reports every attempt to a Tracer as a "start" and an "end" event
+ * (timing, status, error tag, attempt number and correlation ID header).
+ * Sinks receive the events; the shared tracer feeds an in-memory ring buffer
+ * (traceBuffer) that dev tooling reads, and more sinks can be added for metrics.
+ */
+import { Result } from "better-result";
+import { ApiError, type FetchError } from "./errors";
+
+interface TraceEventBase {
+    // Shared by every attempt of one safeRequest call
+    requestId: string;
+    attempt: number;
+    method: string;
+    url: string;
+    correlationId: string | null;
+    startedAt: number;
+}
+
+export interface TraceStartEvent extends TraceEventBase {
+    type: "start";
+}
+
+export interface TraceEndEvent extends TraceEventBase {
+    type: "end";
+    durationMs: number;
+    // HTTP status when the server answered (also for ApiErrors), otherwise null
+    status: number | null;
+    errorTag: FetchError["_tag"] | null;
+}
+
+export type TraceEvent = TraceStartEvent | TraceEndEvent;
+
+export type TraceSink = (event: TraceEvent) => void;
+
+export interface TracedRequest {
+    requestId: string;
+    attempt: number;
+    method: string;
+    url: string;
+    headers?: HeadersInit;
+}
+
+/**
+ * Handle for one traced attempt - call end() with its outcome
+ */
+export interface TraceSpan {
+    end(result: Result<Response, FetchError>): void;
+}
+
+export class Tracer {
+    private readonly sinks = new Set<TraceSink>();
+    private sequence = 0;
+
+    constructor(readonly correlationHeader = "X-Correlation-ID") {}
+
+    /**
+     * Register a sink and return a function that removes it
+     */
+    addSink(sink: TraceSink): () => void {
+        this.sinks.add(sink);
+        return () => this.sinks.delete(sink);
+    }
+
+    nextRequestId(): string {
+        return `req-${++this.sequence}`;
+    }
+
+    /**
+     * Emit the start event for an attempt
+     */
+    start(request: TracedRequest): TraceSpan {
+        const base: TraceEventBase = {
+            requestId: request.requestId,
+            attempt: request.attempt,
+            method: request.method,
+            url: request.url,
+            correlationId: new Headers(request.headers).get(this.correlationHeader),
+            startedAt: Date.now(),
+        };
+        const startedAt = performance.now();
+        this.emit({ ...base, type: "start" });
+
+        return {
+            end: (result) => {
+                const error = result.isErr() ? result.error : null;
+                this.emit({
+                    ...base,
+                    type: "end",
+                    durationMs: Math.round(performance.now() - startedAt),
+                    status: result.isOk()
+                        ? result.value.status
+                        : error instanceof ApiError
+                          ? error.status
+                          : null,
+                    errorTag: error?._tag ?? null,
+                });
+            },
+        };
+    }
+
+    private emit(event: TraceEvent): void {
+        // A failing sink must never affect the request being traced
+        this.sinks.forEach((sink) => Result.try(() => sink(event)));
+    }
+}
+
+/**
+ * One attempt as kept by TraceBuffer - pending until its end event arrives
+ */
+export interface TraceRecord extends TraceEventBase {
+    durationMs: number | null;
+    status: number | null;
+    errorTag: FetchError["_tag"] | null;
+}
+
+/**
+ * Ring buffer sink keeping the most recent attempts, oldest first
+ * Observable through subscribe()/getSnapshot() (see useRequestTraces)
+ */
+export class TraceBuffer {
+    private records: readonly TraceRecord[] = [];
+    private readonly listeners = new Set<() => void>();
+
+    constructor(readonly capacity = 200) {}
+
+    /**
+     * Sink function - pass it to Tracer.addSink
+     */
+    readonly record: TraceSink = (event) => {
+        const { type: _type, ...fields } = event;
+        const record: TraceRecord = {
+            durationMs: null,
+            status: null,
+            errorTag: null,
+            ...fields,
+        };
+
+        const index =
+            event.type === "end"
+                ? this.records.findIndex(
+                      (entry) =>
+                          entry.requestId === event.requestId && entry.attempt === event.attempt
+                  )
+                : -1;
+
+        this.records =
+            index === -1
+                ? [...this.records, record].slice(-this.capacity)
+                : this.records.map((entry, position) => (position === index ? record : entry));
+        this.listeners.forEach((listener) => listener());
+    };
+
+    getSnapshot(): readonly TraceRecord[] {
+        return this.records;
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    clear(): void {
+        this.records = [];
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+/**
+ * Buffer of recent calls made in this process (browser tab or server)
+ */
+export const traceBuffer = new TraceBuffer();
+
+/**
+ * Tracer used by every request unless a call opts out
+ */
+export const tracer = new Tracer();
+tracer.addSink(traceBuffer.record);
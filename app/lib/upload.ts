@@ -0,0 +1,167 @@
+/**
+ * Upload helper with progress reporting and chunked, resumable uploads
+ * Built on safeRequest/safeFetch so timeouts, retries and interceptors apply
+ * `timeout` defaults to 0 (per request): sending a large file or chunk on a slow link
+ * would otherwise hit the global deadline on every attempt
+ *
+ * Chunk protocol: every chunk is a multipart request carrying
+ * `Content-Range: bytes <start>-<end>/<total>` and `X-Upload-Id`;
+ * the server acknowledges each chunk and answers the last one with the result.
+ * fetch cannot observe request body progress, so progress is reported per chunk -
+ * use a smaller chunkSize for finer-grained feedback.
+ */
+import { Result } from "better-result";
+import { safeFetch, safeRequest, type FetchOptions } from "./api";
+import type { FetchError } from "./errors";
+import { mergeHeaders } from "./http";
+import type { RetryOption } from "./retry";
+
+export interface UploadProgress {
+    loaded: number;
+    total: number;
+    chunkIndex: number;
+    chunkCount: number;
+}
+
+/**
+ * Acknowledged position of a chunked upload - persist it to resume later
+ */
+export interface UploadState {
+    uploadId: string;
+    offset: number;
+    total: number;
+}
+
+export interface UploadOptions<T> extends Omit<FetchOptions<T>, "method" | "body"> {
+    method?: "POST" | "PUT";
+    // Multipart field holding the file (or chunk)
+    fieldName?: string;
+    filename?: string;
+    fields?: Record<string, string>;
+    // Files larger than this are sent in chunks; 0 disables chunking
+    chunkSize?: number;
+    // Resume a previous upload from its last acknowledged state
+    resume?: UploadState;
+    onProgress?: (progress: UploadProgress) => void;
+    onChunkComplete?: (state: UploadState) => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Build the multipart body for a file or chunk
+ */
+function buildFormData(
+    blob: Blob,
+    fieldName: string,
+    filename: string,
+    fields: Record<string, string> | undefined
+): FormData {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields ?? {})) {
+        formData.append(key, value);
+    }
+    formData.append(fieldName, blob, filename);
+    return formData;
+}
+
+/**
+ * Chunks are addressed by byte range, so retrying one is safe for any method
+ */
+function chunkRetry(retry: RetryOption | undefined, method: string): RetryOption {
+    if (retry === false) return false;
+    return { ...retry, methods: [method] };
+}
+
+/**
+ * Upload a file, in chunks when it exceeds `chunkSize`
+ * Returns the parsed response of the final request
+ */
+export async function safeUpload<T>(
+    url: string,
+    file: Blob,
+    options?: UploadOptions<T>
+): Promise<Result<T, FetchError>> {
+    const {
+        method = "POST",
+        fieldName = "file",
+        filename = file instanceof File ? file.name : "blob",
+        fields,
+        chunkSize = DEFAULT_CHUNK_SIZE,
+        resume,
+        onProgress,
+        onChunkComplete,
+        ...callOptions
+    } = options ?? {};
+    // The deadline also covers sending the body - no default one, as for downloads
+    const fetchOptions = { ...callOptions, timeout: callOptions.timeout ?? 0 };
+
+    const total = file.size;
+
+    // Small files (or chunking disabled): one multipart request
+    if (chunkSize <= 0 || total <= chunkSize) {
+        onProgress?.({ loaded: 0, total, chunkIndex: 0, chunkCount: 1 });
+        const result = await safeFetch<T>(url, {
+            ...fetchOptions,
+            method,
+            body: buildFormData(file, fieldName, filename, fields),
+        });
+        if (result.isOk()) {
+            onProgress?.({ loaded: total, total, chunkIndex: 0, chunkCount: 1 });
+        }
+        return result;
+    }
+
+    const uploadId = resume?.uploadId ?? crypto.randomUUID();
+    const chunkCount = Math.ceil(total / chunkSize);
+    const retry = chunkRetry(fetchOptions.retry, method);
+    let offset = resume?.offset ?? 0;
+
+    onProgress?.({ loaded: offset, total, chunkIndex: Math.floor(offset / chunkSize), chunkCount });
+
+    while (offset < total) {
+        const end = Math.min(offset + chunkSize, total);
+        const chunkIndex = Math.floor(offset / chunkSize);
+        const chunkOptions = {
+            ...fetchOptions,
+            method,
+            retry,
+            headers: mergeHeaders(fetchOptions.headers, {
+                "Content-Range": `bytes ${offset}-${end - 1}/${total}`,
+                "X-Upload-Id": uploadId,
+            }),
+            body: buildFormData(file.slice(offset, end), fieldName, filename, fields),
+        };
+
+        // The last chunk's response carries the upload result
+        if (end === total) {
+            const result = await safeFetch<T>(url, chunkOptions);
+            if (result.isOk()) {
+                onChunkComplete?.({ uploadId, offset: end, total });
+                onProgress?.({ loaded: total, total, chunkIndex, chunkCount });
+            }
+            return result;
+        }
+
+        const { schema: _schema, validatorCache: _validatorCache, ...requestOptions } =
+            chunkOptions;
+        const ack = await safeRequest(url, requestOptions);
+        if (ack.isErr()) {
+            return Result.err(ack.error);
+        }
+
+        offset = end;
+        onChunkComplete?.({ uploadId, offset, total });
+        onProgress?.({ loaded: offset, total, chunkIndex, chunkCount });
+    }
+
+    // Only reachable when resuming an upload whose chunks were all acknowledged
+    return safeFetch<T>(url, {
+        ...fetchOptions,
+        method,
+        headers: mergeHeaders(fetchOptions.headers, {
+            "Content-Range": `bytes */${total}`,
+            "X-Upload-Id": uploadId,
+        }),
+    });
+}
@@ -8,25 +8,44 @@
  */
 "use client";
 
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { useState, type ReactNode } from "react";
+import {
+    MutationCache,
+    QueryCache,
+    QueryClient,
+    QueryClientProvider,
+} from "@tanstack/react-query";
+import { useEffect, useState, type ReactNode } from "react";
+import { errorReporter } from "~/lib/error-reporter";
+import { outbox } from "~/lib/outbox";
+import { startAdaptivePolling } from "~/lib/polling";
+import { queryCachePersister } from "~/lib/query-persistence";
+import { queryCacheSync, restartPolling, tabLeader } from "~/lib/query-sync";
+import { createQueryRetry, queryRetryDelay } from "~/lib/query-result";
 
 /**
  * Default options for the QueryClient
  * Following cache-defaults and err-retry-config rules
+ * Also used by route loaders for their per-request client (see ~/lib/query-ssr.server)
  */
-function makeQueryClient() {
+export function makeQueryClient() {
     return new QueryClient({
+        // Report failures that reach the caches (after retries) - see ~/lib/error-reporter
+        queryCache: new QueryCache({
+            onError: (error) => errorReporter.report(error, "query"),
+        }),
+        mutationCache: new MutationCache({
+            onError: (error) => errorReporter.report(error, "mutation"),
+        }),
         defaultOptions: {
             queries: {
                 // Data is considered fresh for 1 minute by default
                 staleTime: 60 * 1000,
                 // Keep inactive data cached for 10 minutes
                 gcTime: 10 * 60 * 1000,
-                // Retry failed queries 3 times
-                retry: 3,
-                // Exponential backoff for retries
-                retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+                // Retry up to 3 times, but only errors classified as retryable (not 404s, parse errors...)
+                retry: createQueryRetry(3),
+                // Exponential backoff for retries, honoring Retry-After
+                retryDelay: queryRetryDelay,
                 // Don't refetch on window focus by default
                 refetchOnWindowFocus: false,
                 // Keep previous data while fetching new data
@@ -46,9 +65,9 @@ let browserQueryClient: QueryClient | undefined = undefined;
 /**
  * Get or create QueryClient
  * For SSR, creates a new client per request (ssr-client-per-request)
- * For browser, reuses the same client
+ * For browser, reuses the same client (also read by clientLoaders, see ~/lib/query-navigation)
  */
-function getQueryClient() {
+export function getQueryClient() {
     if (typeof window === "undefined") {
         // Server: always create a new client
         return makeQueryClient();
@@ -69,6 +88,31 @@ export function QueryProvider({ children }: { children: ReactNode }) {
     // Using useState to ensure the QueryClient is only created once
     const [queryClient] = useState(() => getQueryClient());
 
+    // Replay queued offline mutations now and whenever the browser reconnects
+    useEffect(() => outbox.start(), []);
+
+    // Restore persisted queries after hydration (so SSR markup matches), then keep them saved
+    useEffect(() => queryCachePersister.start(queryClient), [queryClient]);
+
+    // Share query results and invalidations with the other open tabs
+    useEffect(() => queryCacheSync.start(queryClient), [queryClient]);
+
+    // Take part in the per-query polling elections; intervals follow leadership changes
+    useEffect(() => {
+        const unsubscribe = tabLeader.subscribe(() => restartPolling(queryClient));
+        const stopLeading = tabLeader.start(queryClient);
+        return () => {
+            unsubscribe();
+            stopLeading();
+        };
+    }, [queryClient]);
+
+    // Pause polling while hidden or offline, resume when that changes
+    useEffect(() => startAdaptivePolling(queryClient), [queryClient]);
+
+    // Flush pending error reports when the page is hidden or closed
+    useEffect(() => errorReporter.start(), []);
+
     return (
         <QueryClientProvider client={queryClient}>
             {children}
@@ -0,0 +1,23 @@
+/**
+ * Bitcoin query options
+ * Single source for keys, fetcher and refresh policy - shared by hooks, loaders and prefetching
+ */
+import { queryOptions } from "@tanstack/react-query";
+import { bitcoinKeys } from "~/lib/query-keys";
+import { adaptiveInterval } from "~/lib/polling";
+import { persistedQuery } from "~/lib/query-persistence";
+import { createQueryRetry, resultQueryFn } from "~/lib/query-result";
+import { fetchBitcoinPrice } from "~/services/bitcoin.service";
+
+export const bitcoinQueries = {
+    price: () =>
+        queryOptions({
+            queryKey: bitcoinKeys.price(),
+            queryFn: resultQueryFn(({ signal }) => fetchBitcoinPrice({ signal })),
+            staleTime: 5 * 60 * 1000, // 5 minutes
+            // Every 30 seconds, around the clock
+            refetchInterval: adaptiveInterval({ intervalMs: 30 * 1000 }),
+            retry: createQueryRetry(3),
+            ...persistedQuery,
+        }),
+};
@@ -0,0 +1,24 @@
+/**
+ * ETF query options
+ * Single source for keys, fetcher and refresh policy - shared by hooks, loaders and prefetching
+ */
+import { queryOptions } from "@tanstack/react-query";
+import { etfKeys } from "~/lib/query-keys";
+import { NYSE_HOURS } from "~/lib/market-hours";
+import { adaptiveInterval } from "~/lib/polling";
+import { persistedQuery } from "~/lib/query-persistence";
+import { createQueryRetry, resultQueryFn } from "~/lib/query-result";
+import { fetchETFData } from "~/services/etf.service";
+
+export const etfQueries = {
+    dividends: () =>
+        queryOptions({
+            queryKey: etfKeys.dividends(),
+            queryFn: resultQueryFn(() => fetchETFData()),
+            staleTime: 5 * 60 * 1000, // 5 minutes
+            // Every minute during NYSE hours
+            refetchInterval: adaptiveInterval({ intervalMs: 60 * 1000, schedule: NYSE_HOURS }),
+            retry: createQueryRetry(3),
+            ...persistedQuery,
+        }),
+};
@@ -0,0 +1,24 @@
+/**
+ * Gold query options
+ * Single source for keys, fetcher and refresh policy - shared by hooks, loaders and prefetching
+ */
+import { queryOptions } from "@tanstack/react-query";
+import { goldKeys } from "~/lib/query-keys";
+import { THAI_GOLD_HOURS } from "~/lib/market-hours";
+import { adaptiveInterval } from "~/lib/polling";
+import { persistedQuery } from "~/lib/query-persistence";
+import { createQueryRetry, resultQueryFn } from "~/lib/query-result";
+import { fetchGoldPrice } from "~/services/gold.service";
+
+export const goldQueries = {
+    price: () =>
+        queryOptions({
+            queryKey: goldKeys.price(),
+            queryFn: resultQueryFn(({ signal }) => fetchGoldPrice({ signal })),
+            staleTime: 1 * 60 * 1000, // 1 minute
+            // Every minute while Thai gold trades
+            refetchInterval: adaptiveInterval({ intervalMs: 60 * 1000, schedule: THAI_GOLD_HOURS }),
+            retry: createQueryRetry(3),
+            ...persistedQuery,
+        }),
+};
@@ -0,0 +1,52 @@
+/**
+ * User query options
+ * Single source for keys and fetchers - shared by hooks, loaders and prefetching
+ */
+import { infiniteQueryOptions, queryOptions } from "@tanstack/react-query";
+import type { Page } from "~/lib/api";
+import { userKeys } from "~/lib/query-keys";
+import { persistedQuery } from "~/lib/query-persistence";
+import { resultQueryFn } from "~/lib/query-result";
+import {
+    fetchUserById,
+    fetchUsers,
+    fetchUsersPage,
+    initialUsersPageParam,
+} from "~/services/user.service";
+import { filterUsers } from "~/services/user-filters";
+import type { User, UserFilters } from "~/types/users.type";
+
+export const userQueries = {
+    list: () =>
+        queryOptions({
+            queryKey: userKeys.lists(),
+            queryFn: resultQueryFn(({ signal }) => fetchUsers({ signal })),
+            ...persistedQuery,
+        }),
+
+    // One page of the directory view - derived from the full list, which it shares:
+    // fetchQuery reuses the cached list, or joins its refetch after an invalidation
+    filtered: (filters: UserFilters) =>
+        queryOptions({
+            queryKey: userKeys.filtered(filters),
+            queryFn: async ({ client }) =>
+                filterUsers(await client.fetchQuery(userQueries.list()), filters),
+        }),
+
+    detail: (id: number) =>
+        queryOptions({
+            queryKey: userKeys.detail(id),
+            queryFn: resultQueryFn(({ signal }) => fetchUserById(id, { signal })),
+        }),
+
+    // Page by page (fetchNextPage / hasNextPage)
+    infinite: () =>
+        infiniteQueryOptions({
+            queryKey: userKeys.infinite(),
+            queryFn: resultQueryFn(({ pageParam, signal }) =>
+                fetchUsersPage(pageParam, { signal })
+            ),
+            initialPageParam: initialUsersPageParam,
+            getNextPageParam: (lastPage: Page<User>) => lastPage.next,
+        }),
+};
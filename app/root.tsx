@@ -6,11 +6,21 @@ import {
   Scripts,
   ScrollRestoration,
 } from "react-router";
+import { HydrationBoundary } from "@tanstack/react-query";
+import { useEffect } from "react";
 
 import type { Route } from "./+types/root";
 import "./app.css";
+import { RequestTracePanel } from "./components/request-trace-panel";
+import { useRouteDehydratedState } from "./hooks/useRouteDehydratedState";
+import { apiConfig } from "./lib/config";
+import { errorReporter } from "./lib/error-reporter";
+import { configureFixtures } from "./lib/fixtures";
 import { QueryProvider } from "./providers/query-provider";
 
+// Record or replay HTTP fixtures when VITE_API_FIXTURES is set
+configureFixtures(apiConfig.fixtures);
+
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
   {
@@ -43,14 +53,25 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
+  // Queries prefetched by the matched routes' loaders during SSR
+  const dehydratedState = useRouteDehydratedState();
+
   return (
     <QueryProvider>
-      <Outlet />
+      <HydrationBoundary state={dehydratedState}>
+        <Outlet />
+      </HydrationBoundary>
+      {import.meta.env.DEV && <RequestTracePanel />}
     </QueryProvider>
   );
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  // Route responses (404s etc.) are expected; anything else is a crash worth reporting
+  useEffect(() => {
+    if (!isRouteErrorResponse(error)) errorReporter.report(error, "boundary");
+  }, [error]);
+
   let message = "Oops!";
   let details = "An unexpected error occurred.";
   let stack: string | undefined;
@@ -6,5 +6,7 @@ export default [
     route("bitcoin", "routes/bitcoin.tsx"),
     route("gold", "routes/gold.tsx"),
     route("etf", "routes/etf.tsx"),
+    route("api/client-errors", "routes/api.client-errors.ts"),
+    route("__fixtures", "routes/dev.fixtures.ts"),
 ] satisfies RouteConfig;
 
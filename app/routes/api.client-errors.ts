@@ -0,0 +1,53 @@
+/**
+ * Resource route receiving batched client error reports (see ~/lib/error-reporter)
+ * Valid batches are appended to logs/client-errors.log; invalid ones get problem+json,
+ * as does a failed write (503)
+ */
+import { Result } from "better-result";
+import { appendClientErrors } from "~/lib/client-errors.server";
+import { clientErrorBatchSchema } from "~/lib/error-reporter";
+import { readTextCapped } from "~/lib/http";
+import type { Route } from "./+types/api.client-errors";
+
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_REPORTS_PER_BATCH = 50;
+
+function problem(status: number, title: string, detail?: string): Response {
+    return Response.json(
+        { type: "about:blank", title, status, detail },
+        { status, headers: { "Content-Type": "application/problem+json" } }
+    );
+}
+
+export async function action({ request }: Route.ActionArgs) {
+    if (request.method !== "POST") {
+        return problem(405, "Method Not Allowed");
+    }
+
+    const { text, truncated } = await readTextCapped(new Response(request.body), MAX_BODY_BYTES);
+    if (truncated) {
+        return problem(413, "Payload Too Large", `Batches are limited to ${MAX_BODY_BYTES} bytes`);
+    }
+
+    const parsed = Result.try(() => JSON.parse(text) as unknown);
+    if (parsed.isErr()) {
+        return problem(400, "Bad Request", "Body is not valid JSON");
+    }
+
+    const batch = clientErrorBatchSchema.validate(parsed.value);
+    if (batch.isErr()) {
+        return problem(400, "Bad Request", batch.error.message);
+    }
+
+    const written = await Result.tryPromise(() =>
+        appendClientErrors(batch.value.reports.slice(0, MAX_REPORTS_PER_BATCH), {
+            receivedAt: new Date().toISOString(),
+            ip: request.headers.get("X-Forwarded-For")?.split(",")[0].trim() ?? null,
+        })
+    );
+    if (written.isErr()) {
+        console.error("[client-errors] could not write the batch", written.error);
+        return problem(503, "Service Unavailable", "Error reports cannot be stored right now");
+    }
+    return new Response(null, { status: 204 });
+}
@@ -1,6 +1,21 @@
 import BitcoinFeed from "../components/bitcoin-feed";
+import { loadQueries, navigationQuery } from "~/lib/query-navigation";
+import { prefetchQueries, ssrQuery } from "~/lib/query-ssr.server";
+import { bitcoinQueries } from "~/queries/bitcoin.queries";
 import type { Route } from "./+types/bitcoin";
 
+// Prefetch during SSR so the first paint has a real price
+export function loader({ }: Route.LoaderArgs) {
+    return prefetchQueries((queryClient) => queryClient.prefetchQuery(ssrQuery(bitcoinQueries.price())));
+}
+
+// Client-side navigations read the browser cache instead of waiting on the server loader
+export function clientLoader({ }: Route.ClientLoaderArgs) {
+    return loadQueries((queryClient) =>
+        queryClient.ensureQueryData(navigationQuery(bitcoinQueries.price()))
+    );
+}
+
 export function meta({ }: Route.MetaArgs) {
     return [
         { title: "Bitcoin Price Feed | Real-time Crypto Tracker" },
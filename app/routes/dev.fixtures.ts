@@ -0,0 +1,28 @@
+/**
+ * Dev-only resource route that stores HTTP fixtures recorded in the browser
+ * Only answers in development with VITE_API_FIXTURES=record (see ~/lib/fixtures)
+ */
+import { Result } from "better-result";
+import { apiConfig } from "~/lib/config";
+import { httpFixtureSchema } from "~/lib/fixtures";
+import { saveFixture } from "~/lib/fixtures.server";
+import type { Route } from "./+types/dev.fixtures";
+
+export async function action({ request }: Route.ActionArgs) {
+    if (!import.meta.env.DEV || apiConfig.fixtures !== "record") {
+        return new Response(null, { status: 404 });
+    }
+
+    const body = await Result.tryPromise(() => request.json() as Promise<unknown>);
+    if (body.isErr()) {
+        return Response.json({ error: "Body is not valid JSON" }, { status: 400 });
+    }
+
+    const fixture = httpFixtureSchema.validate(body.value);
+    if (fixture.isErr()) {
+        return Response.json({ error: fixture.error.message }, { status: 400 });
+    }
+
+    const file = await saveFixture(fixture.value);
+    return Response.json({ file });
+}
@@ -1,18 +1,22 @@
-"use client";
-
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import ETFFeed from "../components/etf-feed";
+import { loadQueries, navigationQuery } from "~/lib/query-navigation";
+import { prefetchQueries, ssrQuery } from "~/lib/query-ssr.server";
+import { etfQueries } from "~/queries/etf.queries";
 import type { Route } from "./+types/etf";
 
-// Create a client
-const queryClient = new QueryClient({
-    defaultOptions: {
-        queries: {
-            staleTime: 5 * 60 * 1000,
-            retry: 3,
-        },
-    },
-});
+// Prefetch during SSR so the first paint has the ETF table
+export function loader({ }: Route.LoaderArgs) {
+    return prefetchQueries((queryClient) =>
+        queryClient.prefetchQuery(ssrQuery(etfQueries.dividends()))
+    );
+}
+
+// Client-side navigations read the browser cache instead of waiting on the server loader
+export function clientLoader({ }: Route.ClientLoaderArgs) {
+    return loadQueries((queryClient) =>
+        queryClient.ensureQueryData(navigationQuery(etfQueries.dividends()))
+    );
+}
 
 export function meta({ }: Route.MetaArgs) {
     return [
@@ -27,19 +31,17 @@ export function meta({ }: Route.MetaArgs) {
 
 export default function ETF() {
     return (
-        <QueryClientProvider client={queryClient}>
-            <main
-                style={{
-                    minHeight: "100vh",
-                    background: "linear-gradient(180deg, #050a15 0%, #0a1628 100%)",
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "center",
-                    padding: "1rem",
-                }}
-            >
-                <ETFFeed />
-            </main>
-        </QueryClientProvider>
+        <main
+            style={{
+                minHeight: "100vh",
+                background: "linear-gradient(180deg, #050a15 0%, #0a1628 100%)",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                padding: "1rem",
+            }}
+        >
+            <ETFFeed />
+        </main>
     );
 }
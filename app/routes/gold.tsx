@@ -1,6 +1,21 @@
 import GoldFeed from "../components/gold-feed";
+import { loadQueries, navigationQuery } from "~/lib/query-navigation";
+import { prefetchQueries, ssrQuery } from "~/lib/query-ssr.server";
+import { goldQueries } from "~/queries/gold.queries";
 import type { Route } from "./+types/gold";
 
+// Prefetch during SSR so the first paint has a real price
+export function loader({ }: Route.LoaderArgs) {
+    return prefetchQueries((queryClient) => queryClient.prefetchQuery(ssrQuery(goldQueries.price())));
+}
+
+// Client-side navigations read the browser cache instead of waiting on the server loader
+export function clientLoader({ }: Route.ClientLoaderArgs) {
+    return loadQueries((queryClient) =>
+        queryClient.ensureQueryData(navigationQuery(goldQueries.price()))
+    );
+}
+
 export function meta({ }: Route.MetaArgs) {
     return [
         { title: "ราคาทองคำวันนี้ | Gold Price Thailand" },
@@ -6,9 +6,54 @@
  * - Data Loading with TanStack Query (load-ensure-query-data)
  * - Proper meta tags for SEO
  */
+import type { ShouldRevalidateFunctionArgs } from "react-router";
 import { UserList } from "../components/user-feed";
+import { loadQueries, navigationQuery } from "~/lib/query-navigation";
+import { prefetchQueries, ssrQuery } from "~/lib/query-ssr.server";
+import { userQueries } from "~/queries/users.queries";
+import { parseUserFilters } from "~/services/user-filters";
 import type { Route } from "./+types/users";
 
+/**
+ * Prefetch the user list and the requested view during SSR so the directory renders on the server
+ */
+export function loader({ request }: Route.LoaderArgs) {
+    const filters = parseUserFilters(new URL(request.url).searchParams);
+
+    return prefetchQueries(async (queryClient) => {
+        await queryClient.prefetchQuery(ssrQuery(userQueries.list()));
+        // The view is derived from the list - skip it when the list failed
+        if (queryClient.getQueryData(userQueries.list().queryKey)) {
+            await queryClient.prefetchQuery(ssrQuery(userQueries.filtered(filters)));
+        }
+    });
+}
+
+/**
+ * Client-side navigations read the browser cache instead of waiting on the server loader
+ * The view needs the list, so it is loaded after it (a failed list skips the view)
+ */
+export function clientLoader({ request }: Route.ClientLoaderArgs) {
+    const filters = parseUserFilters(new URL(request.url).searchParams);
+
+    return loadQueries(async (queryClient) => {
+        await queryClient.ensureQueryData(navigationQuery(userQueries.list()));
+        await queryClient.ensureQueryData(navigationQuery(userQueries.filtered(filters)));
+    });
+}
+
+/**
+ * Search, filter and page changes only touch the URL: the view is computed in the
+ * browser from cached data, so there is no need to run the loader again
+ */
+export function shouldRevalidate({
+    currentUrl,
+    nextUrl,
+    defaultShouldRevalidate,
+}: ShouldRevalidateFunctionArgs) {
+    return currentUrl.pathname === nextUrl.pathname ? false : defaultShouldRevalidate;
+}
+
 /**
  * Meta function for SEO
  */
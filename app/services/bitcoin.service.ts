@@ -3,9 +3,11 @@
  * Uses better-result for error handling consistency
  */
 import { Result } from "better-result";
-import { safeFetch } from "~/lib/api";
-import { NetworkError } from "~/lib/errors";
+import type { RequestOptions } from "~/lib/api";
+import { createApiClient } from "~/lib/api-client";
+import { apiConfig } from "~/lib/config";
 import type { FetchError } from "~/lib/errors";
+import { s, type Infer } from "~/lib/schema";
 
 // Types for Bitcoin API response
 interface BitcoinPrice {
@@ -19,23 +21,31 @@ interface BitcoinData {
     prices: BitcoinPrice;
 }
 
-// Raw API response from blockchain.info
-interface BitcoinRawResponse {
-    USD: { last: number };
-    EUR: { last: number };
-    THB: { last: number };
-}
+// Raw API response from blockchain.info (only the fields we read)
+const tickerSchema = s.object({ last: s.number() });
+
+const bitcoinRawSchema = s.object({
+    USD: tickerSchema,
+    EUR: tickerSchema,
+    THB: tickerSchema,
+});
 
-const BITCOIN_API = "https://blockchain.info/ticker";
+type BitcoinRawResponse = Infer<typeof bitcoinRawSchema>;
+
+const bitcoinApi = createApiClient({ baseUrl: apiConfig.bitcoinApiUrl });
 
 /**
  * Fetch Bitcoin price from blockchain.info API
  * Transforms raw API response to standardized format
  */
-export async function fetchBitcoinPrice(): Promise<
-    Result<BitcoinData, FetchError>
-> {
-    const result = await safeFetch<BitcoinRawResponse>(BITCOIN_API);
+export async function fetchBitcoinPrice(
+    options?: RequestOptions
+): Promise<Result<BitcoinData, FetchError>> {
+    const result = await bitcoinApi.get<BitcoinRawResponse>("/ticker", {
+        ...options,
+        schema: bitcoinRawSchema,
+        validatorCache: true,
+    });
 
     if (result.isErr()) {
         return result;
@@ -46,9 +56,9 @@ export async function fetchBitcoinPrice(): Promise<
     return Result.ok({
         time: Date.now(),
         prices: {
-            USD: { last: data.USD?.last || 0, symbol: "$" },
-            EUR: { last: data.EUR?.last || 0, symbol: "€" },
-            THB: { last: data.THB?.last || 0, symbol: "฿" },
+            USD: { last: data.USD.last, symbol: "$" },
+            EUR: { last: data.EUR.last, symbol: "€" },
+            THB: { last: data.THB.last, symbol: "฿" },
         },
     });
 }
@@ -3,9 +3,12 @@
  * Uses better-result for error handling consistency
  */
 import { Result } from "better-result";
-import { safeFetch } from "~/lib/api";
+import type { RequestOptions } from "~/lib/api";
+import { createApiClient } from "~/lib/api-client";
+import { apiConfig } from "~/lib/config";
 import { ApiError } from "~/lib/errors";
 import type { FetchError } from "~/lib/errors";
+import { s, type Infer } from "~/lib/schema";
 
 // Types for Gold API response
 interface GoldPrice {
@@ -27,45 +30,55 @@ interface GoldData {
     };
 }
 
+// Prices arrive as formatted strings, e.g. "74,200.00"
+const priceStringSchema = s.string({ pattern: /^\d[\d,]*(\.\d+)?$/ });
+
+const buySellSchema = s.object({
+    buy: priceStringSchema,
+    sell: priceStringSchema,
+});
+
 // Raw API response from chnwt.dev
-interface GoldRawResponse {
-    status: string;
-    response: {
-        date: string;
-        update_time: string;
-        price: {
-            gold_bar: {
-                buy: string;
-                sell: string;
-            };
-            gold: {
-                buy: string;
-                sell: string;
-            };
-            change: {
-                compare_previous: string;
-                compare_yesterday: string;
-            };
-        };
-    };
-}
+const goldRawSchema = s.object({
+    status: s.string(),
+    response: s.object({
+        date: s.string(),
+        update_time: s.string(),
+        price: s.object({
+            gold_bar: buySellSchema,
+            gold: buySellSchema,
+            change: s.object({
+                compare_previous: s.string(),
+                compare_yesterday: s.string(),
+            }),
+        }),
+    }),
+});
+
+type GoldRawResponse = Infer<typeof goldRawSchema>;
 
-const GOLD_API = "https://api.chnwt.dev/thai-gold-api/latest";
+const goldApi = createApiClient({ baseUrl: apiConfig.goldApiUrl });
 
 /**
  * Parse price string to number (e.g., "74,200.00" -> 74200.00)
+ * The schema guarantees the string is numeric
  */
-function parsePrice(priceStr: string | undefined): number {
-    if (!priceStr) return 0;
-    return parseFloat(priceStr.replace(/,/g, "")) || 0;
+function parsePrice(priceStr: string): number {
+    return parseFloat(priceStr.replace(/,/g, ""));
 }
 
 /**
  * Fetch Thai Gold price from chnwt.dev API
  * Transforms raw API response to standardized format
  */
-export async function fetchGoldPrice(): Promise<Result<GoldData, FetchError>> {
-    const result = await safeFetch<GoldRawResponse>(GOLD_API);
+export async function fetchGoldPrice(
+    options?: RequestOptions
+): Promise<Result<GoldData, FetchError>> {
+    const result = await goldApi.get<GoldRawResponse>("/latest", {
+        ...options,
+        schema: goldRawSchema,
+        validatorCache: true,
+    });
 
     if (result.isErr()) {
         return result;
@@ -79,7 +92,7 @@ export async function fetchGoldPrice(): Promise<Result<GoldData, FetchError>> {
             new ApiError({
                 status: 400,
                 statusText: "Bad Request",
-                url: GOLD_API,
+                url: goldApi.url("/latest"),
             })
         );
     }
@@ -88,21 +101,21 @@ export async function fetchGoldPrice(): Promise<Result<GoldData, FetchError>> {
 
     return Result.ok({
         time: Date.now(),
-        date: goldData.date || "",
-        updateTime: goldData.update_time || "",
+        date: goldData.date,
+        updateTime: goldData.update_time,
         prices: {
             goldBar: {
-                buy: parsePrice(goldData.price?.gold_bar?.buy),
-                sell: parsePrice(goldData.price?.gold_bar?.sell),
+                buy: parsePrice(goldData.price.gold_bar.buy),
+                sell: parsePrice(goldData.price.gold_bar.sell),
             },
             goldOrnament: {
-                buy: parsePrice(goldData.price?.gold?.buy),
-                sell: parsePrice(goldData.price?.gold?.sell),
+                buy: parsePrice(goldData.price.gold.buy),
+                sell: parsePrice(goldData.price.gold.sell),
             },
         },
         change: {
-            comparePrevious: goldData.price?.change?.compare_previous || "",
-            compareYesterday: goldData.price?.change?.compare_yesterday || "",
+            comparePrevious: goldData.price.change.compare_previous,
+            compareYesterday: goldData.price.change.compare_yesterday,
         },
     });
 }
@@ -0,0 +1,129 @@
+/**
+ * User directory search, filtering, sorting and paging
+ *
+ * The view state lives in the /users URL (?q=&sort=&order=&city=&company=&page=)
+ * so views can be shared and bookmarked. Each param is validated on its own:
+ * an invalid value falls back to its default instead of breaking the page.
+ * Filtering runs on the full user list - JSONPlaceholder only has a handful of users.
+ */
+import { s, type Schema } from "~/lib/schema";
+import type { FilteredUsers, User, UserFilters, UserSortField } from "~/types/users.type";
+
+export const USERS_PAGE_SIZE = 6;
+
+export const USER_SORT_FIELDS: UserSortField[] = ["name", "username", "email", "company", "city"];
+
+export const DEFAULT_USER_FILTERS: UserFilters = {
+    q: "",
+    sort: "name",
+    order: "asc",
+    city: "",
+    company: "",
+    page: 1,
+};
+
+const userFilterParams: { [K in keyof UserFilters]: Schema<UserFilters[K]> } = {
+    q: s.string(),
+    sort: s.oneOf(...USER_SORT_FIELDS),
+    order: s.oneOf("asc", "desc"),
+    city: s.string(),
+    company: s.string(),
+    page: {
+        expected: "positive integer",
+        validate: (value, path) =>
+            s.string({ pattern: /^[1-9]\d{0,5}$/ }).validate(value, path).map(Number),
+    },
+};
+
+function validateParam<K extends keyof UserFilters>(
+    searchParams: URLSearchParams,
+    key: K
+): UserFilters[K] {
+    return userFilterParams[key]
+        .validate(searchParams.get(key) ?? undefined)
+        .unwrapOr(DEFAULT_USER_FILTERS[key]);
+}
+
+/**
+ * Read the directory view from URL search params
+ */
+export function parseUserFilters(searchParams: URLSearchParams): UserFilters {
+    return {
+        q: validateParam(searchParams, "q"),
+        sort: validateParam(searchParams, "sort"),
+        order: validateParam(searchParams, "order"),
+        city: validateParam(searchParams, "city"),
+        company: validateParam(searchParams, "company"),
+        page: validateParam(searchParams, "page"),
+    };
+}
+
+/**
+ * Write the directory view to URL search params, leaving out defaults
+ */
+export function toUserSearchParams(filters: UserFilters): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const key of Object.keys(DEFAULT_USER_FILTERS) as Array<keyof UserFilters>) {
+        const value = filters[key];
+        if (value !== DEFAULT_USER_FILTERS[key]) params.set(key, String(value));
+    }
+    return params;
+}
+
+const sortValue: Record<UserSortField, (user: User) => string> = {
+    name: (user) => user.name,
+    username: (user) => user.username,
+    email: (user) => user.email,
+    company: (user) => user.company.name,
+    city: (user) => user.address.city,
+};
+
+function matchesSearch(user: User, q: string): boolean {
+    const needle = q.trim().toLowerCase();
+    return (
+        needle === "" ||
+        [user.name, user.username, user.email, user.company.name].some((field) =>
+            field.toLowerCase().includes(needle)
+        )
+    );
+}
+
+/**
+ * Apply search, filters and sort, and cut out the requested page
+ * A page past the end is clamped to the last one
+ */
+export function filterUsers(users: User[], filters: UserFilters): FilteredUsers {
+    const direction = filters.order === "asc" ? 1 : -1;
+    const matching = users
+        .filter(
+            (user) =>
+                matchesSearch(user, filters.q) &&
+                (filters.city === "" || user.address.city === filters.city) &&
+                (filters.company === "" || user.company.name === filters.company)
+        )
+        .sort(
+            (a, b) =>
+                direction * sortValue[filters.sort](a).localeCompare(sortValue[filters.sort](b))
+        );
+
+    const pageCount = Math.max(1, Math.ceil(matching.length / USERS_PAGE_SIZE));
+    const page = Math.min(filters.page, pageCount);
+    return {
+        items: matching.slice((page - 1) * USERS_PAGE_SIZE, page * USERS_PAGE_SIZE),
+        total: matching.length,
+        page,
+        pageCount,
+    };
+}
+
+/**
+ * Distinct cities and companies, for the filter menus
+ */
+export function userFilterOptions(users: User[]): { cities: string[]; companies: string[] } {
+    const distinct = (values: string[]) =>
+        [...new Set(values)].sort((a, b) => a.localeCompare(b));
+    return {
+        cities: distinct(users.map((user) => user.address.city)),
+        companies: distinct(users.map((user) => user.company.name)),
+    };
+}
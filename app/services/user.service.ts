@@ -1,34 +1,110 @@
 import type { Result } from "better-result";
-import { safeDelete, safeFetch, safePost, safePut } from "~/lib/api";
+import {
+    getInitialPageParam,
+    type MutationOptions,
+    type Page,
+    type PageParam,
+    type Pagination,
+    type RequestOptions,
+} from "~/lib/api";
+import { createApiClient } from "~/lib/api-client";
+import { apiConfig } from "~/lib/config";
 import type { FetchError } from "~/lib/errors";
+import { s, type Schema } from "~/lib/schema";
 import type { User } from "~/types/users.type";
 
-const API_BASE_URL = "https://jsonplaceholder.typicode.com";
+const userApi = createApiClient({ baseUrl: apiConfig.userApiUrl });
 
-export async function fetchUsers(): Promise<Result<User[], FetchError>> {
-    return safeFetch<User[]>(`${API_BASE_URL}/users`);
+// Mutations may opt in to the offline outbox (see ~/lib/outbox)
+type UserMutationOptions = Pick<MutationOptions<User>, "outbox" | "outboxLabel">;
+
+// Runtime shape of a JSONPlaceholder user - checked against the User interface
+const userSchema: Schema<User> = s.object({
+    id: s.number(),
+    name: s.string(),
+    username: s.string(),
+    email: s.string(),
+    address: s.object({
+        street: s.string(),
+        suite: s.string(),
+        city: s.string(),
+        zipcode: s.string(),
+        geo: s.object({
+            lat: s.string(),
+            lng: s.string(),
+        }),
+    }),
+    phone: s.string(),
+    website: s.string(),
+    company: s.object({
+        name: s.string(),
+        catchPhrase: s.string(),
+        bs: s.string(),
+    }),
+});
+
+export async function fetchUsers(
+    options?: RequestOptions
+): Promise<Result<User[], FetchError>> {
+    return userApi.get("/users", { ...options, schema: s.array(userSchema) });
+}
+
+// JSONPlaceholder pages with _start/_limit and reports the total in X-Total-Count
+const usersPagination: Pagination<User[]> = {
+    type: "offset",
+    limit: 5,
+    offsetParam: "_start",
+    limitParam: "_limit",
+};
+
+export const initialUsersPageParam = getInitialPageParam(usersPagination);
+
+/**
+ * Fetch one page of users - pass `next` from the previous page to continue
+ */
+export async function fetchUsersPage(
+    pageParam: PageParam,
+    options?: RequestOptions
+): Promise<Result<Page<User>, FetchError>> {
+    return userApi.page("/users", pageParam, {
+        ...options,
+        pagination: usersPagination,
+        schema: s.array(userSchema),
+    });
 }
 
 export async function fetchUserById(
-    id: number
+    id: number,
+    options?: RequestOptions
 ): Promise<Result<User, FetchError>> {
-    return safeFetch<User>(`${API_BASE_URL}/users/${id}`);
+    return userApi.get(`/users/${id}`, { ...options, schema: userSchema });
 }
 
 export async function fetchUserPosts(
-    id: number
+    id: number,
+    options?: RequestOptions
 ): Promise<Result<User[], FetchError>> {
-    return safeFetch<User[]>(`${API_BASE_URL}/users/${id}/posts`);
+    return userApi.get<User[]>(`/users/${id}/posts`, options);
 }
 
-export async function createUser(data: User): Promise<Result<User, FetchError>> {
-    return safePost<User>(`${API_BASE_URL}/users`, data);
+export async function createUser(
+    data: User,
+    options?: UserMutationOptions
+): Promise<Result<User, FetchError>> {
+    return userApi.post("/users", data, { ...options, schema: userSchema });
 }
 
-export async function updateUser(id: number, data: User): Promise<Result<User, FetchError>> {
-    return safePut<User>(`${API_BASE_URL}/users/${id}`, data);
+export async function updateUser(
+    id: number,
+    data: User,
+    options?: UserMutationOptions
+): Promise<Result<User, FetchError>> {
+    return userApi.put(`/users/${id}`, data, { ...options, schema: userSchema });
 }
 
-export async function deleteUser(id: number): Promise<Result<User, FetchError>> {
-    return safeDelete<User>(`${API_BASE_URL}/users/${id}`);
-}   
\ No newline at end of file
+export async function deleteUser(
+    id: number,
+    options?: UserMutationOptions
+): Promise<Result<User, FetchError>> {
+    return userApi.delete<User>(`/users/${id}`, options);
+}
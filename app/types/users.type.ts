@@ -24,3 +24,28 @@ export interface User {
         bs: string;
     };
 }
+
+export type UserSortField = "name" | "username" | "email" | "company" | "city";
+
+/**
+ * User directory view state, kept in the /users URL search params
+ */
+export type UserFilters = {
+    // Matches name, username, email or company name
+    q: string;
+    sort: UserSortField;
+    order: "asc" | "desc";
+    city: string;
+    company: string;
+    page: number;
+};
+
+/**
+ * One page of the filtered and sorted directory
+ */
+export interface FilteredUsers {
+    items: User[];
+    total: number;
+    page: number;
+    pageCount: number;
+}
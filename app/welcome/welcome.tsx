@@ -1,16 +1,23 @@
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
 import { Link } from "react-router";
+import { bitcoinQueries } from "~/queries/bitcoin.queries";
+import { etfQueries } from "~/queries/etf.queries";
+import { goldQueries } from "~/queries/gold.queries";
+import { userQueries } from "~/queries/users.queries";
 import logoDark from "./logo-dark.svg";
 import logoLight from "./logo-light.svg";
 
-// App routes for internal navigation
+// App routes for internal navigation, with a prefetch of the data each page needs first
 const appRoutes = [
-  { to: "/users", text: "User Directory", icon: "👥", description: "Browse users from JSONPlaceholder API" },
-  { to: "/bitcoin", text: "Bitcoin Feed", icon: "₿", description: "Real-time Bitcoin prices" },
-  { to: "/gold", text: "Gold Prices", icon: "🥇", description: "Current gold market prices" },
-  { to: "/etf", text: "ETF Dashboard", icon: "📊", description: "ETF market overview" },
+  { to: "/users", text: "User Directory", icon: "👥", description: "Browse users from JSONPlaceholder API", prefetch: (client: QueryClient) => client.prefetchQuery(userQueries.list()) },
+  { to: "/bitcoin", text: "Bitcoin Feed", icon: "₿", description: "Real-time Bitcoin prices", prefetch: (client: QueryClient) => client.prefetchQuery(bitcoinQueries.price()) },
+  { to: "/gold", text: "Gold Prices", icon: "🥇", description: "Current gold market prices", prefetch: (client: QueryClient) => client.prefetchQuery(goldQueries.price()) },
+  { to: "/etf", text: "ETF Dashboard", icon: "📊", description: "ETF market overview", prefetch: (client: QueryClient) => client.prefetchQuery(etfQueries.dividends()) },
 ];
 
 export function Welcome() {
+  const queryClient = useQueryClient();
+
   return (
     <main className="flex items-center justify-center pt-16 pb-4">
       <div className="flex-1 flex flex-col items-center gap-16 min-h-0">
@@ -42,10 +49,13 @@ export function Welcome() {
               🚀 Explore App
             </p>
             <ul className="space-y-2">
-              {appRoutes.map(({ to, text, icon, description }) => (
+              {appRoutes.map(({ to, text, icon, description, prefetch }) => (
                 <li key={to}>
                   <Link
                     to={to}
+                    // Start loading the page's data on intent (hover / keyboard focus)
+                    onMouseEnter={() => void prefetch(queryClient)}
+                    onFocus={() => void prefetch(queryClient)}
                     className="group flex items-center gap-3 self-stretch p-3 rounded-xl leading-normal text-gray-200 hover:bg-white/10 transition-all duration-200"
                     style={{
                       border: "1px solid rgba(255, 255, 255, 0.08)",
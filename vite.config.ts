@@ -3,6 +3,9 @@ import tailwindcss from "@tailwindcss/vite";
 import { defineConfig } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 
+// Busts the persisted query cache on every build unless pinned (e.g. to a git SHA)
+process.env.VITE_BUILD_ID ??= Date.now().toString(36);
+
 export default defineConfig({
   plugins: [tailwindcss(), reactRouter(), tsconfigPaths()],
 });